@@ -4,24 +4,77 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  RootsListChangedNotificationSchema,
+  SubscribeRequestSchema,
   ToolSchema,
+  UnsubscribeRequestSchema,
+  type Resource,
+  type Root,
 } from '@modelcontextprotocol/sdk/types.js';
 import fs from 'fs/promises';
+import { watch, type FSWatcher, type Stats } from 'fs';
 import path from 'path';
 import os from 'os';
+import { createHash, randomBytes } from 'crypto';
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
-import { createTwoFilesPatch } from 'diff';
+import {
+  applyPatch,
+  createTwoFilesPatch,
+  diffArrays,
+  parsePatch,
+  type Hunk,
+  type ParsedDiff,
+  type PatchOptions,
+} from 'diff';
 import { minimatch } from 'minimatch';
+import ignore, { type Ignore } from 'ignore';
+import iconv from 'iconv-lite';
+import { parseArgs } from 'node:util';
+import type TypeScript from 'typescript';
+import * as prettier from 'prettier';
+import * as jsonc from 'jsonc-parser';
+import YAML from 'yaml';
+import * as toml from '@decimalturn/toml-patch';
+import { fileURLToPath, pathToFileURL } from 'url';
 
 // Command line argument parsing
-const args = process.argv.slice(2);
+const { values, positionals: args } = parseArgs({
+  options: {
+    deny: {
+      type: 'string',
+      multiple: true,
+      default: [],
+    },
+    'no-default-deny': {
+      type: 'boolean',
+      default: false,
+    },
+  },
+  allowPositionals: true,
+});
 if (args.length === 0) {
-  console.error('Usage: mcp-server-filesystem <allowed-directory> [additional-directories...]');
+  console.error(
+    'Usage: mcp-server-filesystem [--deny <glob>]... [--no-default-deny] ' +
+      '<allowed-directory>[:ro|:rw] [additional-directories...]'
+  );
   process.exit(1);
 }
 
+// Each directory argument may end in ':ro' (read-only) or ':rw' (read-write, the default)
+type AccessMode = 'ro' | 'rw';
+
+function parseDirectoryArgument(arg: string): { dir: string; mode: AccessMode } {
+  const match = /^(.+):(ro|rw)$/.exec(arg);
+  return match ? { dir: match[1]!, mode: match[2] as AccessMode } : { dir: arg, mode: 'rw' };
+}
+
+const directoryArguments = args.map(parseDirectoryArgument);
+
 // Normalize all paths consistently
 function normalizePath(p: string): string {
   return path.normalize(p);
@@ -34,12 +87,22 @@ function expandHome(filepath: string): string {
   return filepath;
 }
 
-// Store allowed directories in normalized form
-const allowedDirectories = args.map((dir) => normalizePath(path.resolve(expandHome(dir))));
+// Directories from the command line, in normalized form. They are the upper bound for
+// everything the server may access, including roots announced by the client.
+const cliDirectories = directoryArguments.map(({ dir }) =>
+  normalizePath(path.resolve(expandHome(dir)))
+);
+const cliDirectoryModes = new Map<string, AccessMode>(
+  cliDirectories.map((dir, i) => [dir, directoryArguments[i]!.mode])
+);
+
+// Currently allowed directories; replaced in place when the client's roots change
+const allowedDirectories = [...cliDirectories];
+const directoryModes = new Map(cliDirectoryModes);
 
 // Validate that all directories exist and are accessible
 await Promise.all(
-  args.map(async (dir) => {
+  directoryArguments.map(async ({ dir }) => {
     try {
       const stats = await fs.stat(dir);
       if (!stats.isDirectory()) {
@@ -53,6 +116,119 @@ await Promise.all(
   })
 );
 
+// Path policy
+// Paths matching a deny pattern are inaccessible to every tool, even inside an allowed
+// directory. Patterns are matched against the path relative to its command line directory,
+// so client roots narrowing access do not change what is denied; patterns without a slash
+// match a name at any depth, and a '!' prefix re-allows a path.
+const DEFAULT_DENY_PATTERNS = [
+  '.env',
+  '.env.*',
+  '!.env.example',
+  '!.env.sample',
+  '!.env.template',
+  '.ssh',
+  '.gnupg',
+  '*.pem',
+  '*.key',
+  '*.p12',
+  '*.pfx',
+  'id_rsa*',
+  'id_dsa*',
+  'id_ecdsa*',
+  'id_ed25519*',
+  '**/.git/config',
+  '**/.aws/credentials',
+  '.netrc',
+  '.npmrc',
+  '.pypirc',
+];
+
+const denyPatterns = [...(values['no-default-deny'] ? [] : DEFAULT_DENY_PATTERNS), ...values.deny];
+
+// Compare whole path segments, so that /home/me does not contain /home/me-evil
+function isPathWithin(childPath: string, parentPath: string): boolean {
+  const relative = path.relative(parentPath, childPath);
+  return (
+    relative === '' ||
+    (relative !== '..' && !relative.startsWith('..' + path.sep) && !path.isAbsolute(relative))
+  );
+}
+
+// The most specific allowed directory containing the path
+function findAllowedRoot(absolutePath: string): string | undefined {
+  return allowedDirectories
+    .filter((dir) => isPathWithin(absolutePath, dir))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+function isAllowedPath(absolutePath: string): boolean {
+  return findAllowedRoot(absolutePath) !== undefined;
+}
+
+// Returns the deny pattern that applies to the path, if any; the last matching pattern wins
+function findDenyPattern(absolutePath: string): string | null {
+  if (!isAllowedPath(absolutePath) || denyPatterns.length === 0) {
+    return null;
+  }
+  // Allowed directories always lie within a command line directory
+  const root = cliDirectories
+    .filter((dir) => isPathWithin(absolutePath, dir))
+    .sort((a, b) => b.length - a.length)[0]!;
+  const segments = path.relative(root, absolutePath).split(path.sep).filter(Boolean);
+  // A denied directory hides everything below it
+  for (let i = 1; i <= segments.length; i++) {
+    const relativePath = segments.slice(0, i).join('/');
+    let denied: string | null = null;
+    for (const pattern of denyPatterns) {
+      const negated = pattern.startsWith('!');
+      const glob = negated ? pattern.slice(1) : pattern;
+      if (minimatch(relativePath, glob, { dot: true, matchBase: !glob.includes('/') })) {
+        denied = negated ? null : pattern;
+      }
+    }
+    if (denied) {
+      return denied;
+    }
+  }
+  return null;
+}
+
+function isDeniedPath(absolutePath: string): boolean {
+  return findDenyPattern(absolutePath) !== null;
+}
+
+function assertNotDenied(absolutePath: string): void {
+  const pattern = findDenyPattern(absolutePath);
+  if (pattern) {
+    throw new Error(`Access denied - ${absolutePath} matches deny pattern '${pattern}'`);
+  }
+}
+
+// Deleting or moving a directory would take denied entries inside it along, so such
+// operations are refused; symlinks are not followed
+async function findDeniedDescendant(dirPath: string): Promise<string | null> {
+  for (const entry of await fs.readdir(dirPath, { withFileTypes: true })) {
+    const entryPath = path.join(dirPath, entry.name);
+    const denied = isDeniedPath(entryPath)
+      ? entryPath
+      : entry.isDirectory()
+        ? await findDeniedDescendant(entryPath)
+        : null;
+    if (denied) {
+      return denied;
+    }
+  }
+  return null;
+}
+
+async function assertNoDeniedDescendants(dirPath: string, action: string): Promise<void> {
+  const denied = await findDeniedDescendant(dirPath);
+  if (denied) {
+    throw new Error(`Refusing to ${action} ${dirPath}: it contains denied path ${denied}`);
+  }
+}
+
 // Security utilities
 async function validatePath(requestedPath: string): Promise<string> {
   const expandedPath = expandHome(requestedPath);
@@ -63,66 +239,280 @@ async function validatePath(requestedPath: string): Promise<string> {
   const normalizedRequested = normalizePath(absolute);
 
   // Check if path is within allowed directories
-  const isAllowed = allowedDirectories.some((dir) => normalizedRequested.startsWith(dir));
-  if (!isAllowed) {
+  if (!isAllowedPath(normalizedRequested)) {
     throw new Error(
       `Access denied - path outside allowed directories: ${absolute} not in ${allowedDirectories.join(
         ', '
       )}`
     );
   }
+  assertNotDenied(normalizedRequested);
 
   // Handle symlinks by checking their real path
+  let realPath: string;
   try {
-    const realPath = await fs.realpath(absolute);
-    const normalizedReal = normalizePath(realPath);
-    const isRealPathAllowed = allowedDirectories.some((dir) => normalizedReal.startsWith(dir));
-    if (!isRealPathAllowed) {
-      throw new Error('Access denied - symlink target outside allowed directories');
-    }
-    return realPath;
-  } catch (error) {
+    realPath = await fs.realpath(absolute);
+  } catch {
     // For new files that don't exist yet, verify parent directory
     const parentDir = path.dirname(absolute);
+    let realParentPath: string;
     try {
-      const realParentPath = await fs.realpath(parentDir);
-      const normalizedParent = normalizePath(realParentPath);
-      const isParentAllowed = allowedDirectories.some((dir) => normalizedParent.startsWith(dir));
-      if (!isParentAllowed) {
-        throw new Error('Access denied - parent directory outside allowed directories');
-      }
-      return absolute;
+      realParentPath = await fs.realpath(parentDir);
     } catch {
       throw new Error(`Parent directory does not exist: ${parentDir}`);
     }
+    if (!isAllowedPath(normalizePath(realParentPath))) {
+      throw new Error('Access denied - parent directory outside allowed directories');
+    }
+    // Return the real location, so read-only checks see the root the file will land in
+    const realTarget = path.join(realParentPath, path.basename(absolute));
+    assertNotDenied(normalizePath(realTarget));
+    return realTarget;
+  }
+
+  const normalizedReal = normalizePath(realPath);
+  if (!isAllowedPath(normalizedReal)) {
+    throw new Error('Access denied - symlink target outside allowed directories');
+  }
+  assertNotDenied(normalizedReal);
+  return realPath;
+}
+
+// Like validatePath, but resolves symlinks in the parent only, so that a symlink is addressed
+// itself rather than the path it points to
+async function validateLinkPath(requestedPath: string): Promise<string> {
+  const absolute = path.resolve(process.cwd(), expandHome(requestedPath));
+  const validParent = await validatePath(path.dirname(absolute));
+  const linkPath = path.join(validParent, path.basename(absolute));
+  assertNotDenied(normalizePath(linkPath));
+  return linkPath;
+}
+
+// Reject mutations of paths whose most specific allowed directory is mounted read-only
+function assertWritable(validPath: string): void {
+  const root = findAllowedRoot(validPath);
+  if (root !== undefined && directoryModes.get(root) === 'ro') {
+    throw new Error(`Access denied - ${validPath} is in read-only directory ${root}`);
+  }
+}
+
+// Like validatePath, but also accepts paths whose parent directories do not exist yet,
+// as long as the nearest existing ancestor lies within the allowed directories
+async function validateCreatablePath(requestedPath: string): Promise<string> {
+  const expandedPath = expandHome(requestedPath);
+  const absolute = path.resolve(process.cwd(), expandedPath);
+  let existingAncestor = path.dirname(absolute);
+  while (existingAncestor !== path.dirname(existingAncestor)) {
+    try {
+      await fs.stat(existingAncestor);
+      break;
+    } catch {
+      existingAncestor = path.dirname(existingAncestor);
+    }
+  }
+  if (existingAncestor === path.dirname(absolute)) {
+    return validatePath(absolute);
   }
+  const validAncestor = await validatePath(existingAncestor);
+  const target = path.join(validAncestor, path.relative(existingAncestor, absolute));
+  // Deny patterns are checked per segment, so this covers every directory still to be created
+  assertNotDenied(normalizePath(target));
+  return target;
 }
 
 // Schema definitions
+const TEXT_ENCODINGS = ['utf-8', 'latin1', 'utf-16le', 'shift_jis'] as const;
+
+const EncodingSchema = z
+  .enum(TEXT_ENCODINGS)
+  .optional()
+  .describe('Text encoding of the file (default: UTF-8, or UTF-16LE when the file has its BOM)');
+
 const ReadFileArgsSchema = z.object({
   path: z.string(),
+  encoding: EncodingSchema,
+  offset: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('1-based line number to start reading from (default: 1)'),
+  limit: z.number().int().min(1).optional().describe('Maximum number of lines to return'),
+  maxBytes: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Maximum number of bytes to return; output is cut at a line boundary'),
+  lineNumbers: z.boolean().default(false).describe('Prefix each line with its line number'),
 });
 
 const ReadMultipleFilesArgsSchema = z.object({
   paths: z.array(z.string()),
+  encoding: EncodingSchema,
+  maxTotalBytes: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Byte budget shared by all files, consumed in the order the paths are given'),
+  lineNumbers: z.boolean().default(false).describe('Prefix each line with its line number'),
+});
+
+const ReadNotebookArgsSchema = z.object({
+  path: z.string(),
+  includeOutputs: z.boolean().default(true).describe('Include the outputs of code cells'),
+  includeImages: z
+    .boolean()
+    .default(false)
+    .describe('Return image outputs as images instead of leaving them out'),
+  maxOutputChars: z
+    .number()
+    .int()
+    .min(0)
+    .default(2000)
+    .describe('Maximum characters kept of each text output'),
 });
 
+const ExpectedSha256Schema = z
+  .string()
+  .regex(/^[0-9a-fA-F]{64}$/)
+  .optional()
+  .describe('Fail unless the file still has this SHA-256, as reported by read_file');
+
+const ExpectedMtimeSchema = z
+  .string()
+  .datetime()
+  .optional()
+  .describe('Fail unless the file still has this modification time, as reported by read_file');
+
 const WriteFileArgsSchema = z.object({
   path: z.string(),
   content: z.string(),
+  encoding: EncodingSchema,
+  expectedSha256: ExpectedSha256Schema,
+  expectedMtime: ExpectedMtimeSchema,
 });
 
-const EditOperation = z.object({
+const TextEditOperation = z.object({
   oldText: z.string().describe('Text to search for - must match exactly'),
   newText: z.string().describe('Text to replace with'),
+  replaceAll: z
+    .boolean()
+    .default(false)
+    .describe('Replace every occurrence of oldText instead of requiring a unique match'),
+  occurrence: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Replace only the Nth occurrence (1-based) when oldText matches more than once'),
+});
+
+const ExpectedLinesSchema = z
+  .string()
+  .optional()
+  .describe(
+    'Current content of the addressed lines (for insertAt, the lines that will follow the ' +
+      'inserted text); the edit is refused if the file differs'
+  );
+
+const LineRangeSchema = z
+  .object({
+    start: z.number().int().min(1).describe('First line, 1-based'),
+    end: z.number().int().min(1).describe('Last line, inclusive'),
+  })
+  .refine((range) => range.start <= range.end, "'start' must not be after 'end'");
+
+const InsertAtOperation = z.object({
+  insertAt: z
+    .number()
+    .int()
+    .min(1)
+    .describe('Insert newText before this line (1-based); use the line count + 1 to append'),
+  newText: z.string().describe('Lines to insert'),
+  expectedLines: ExpectedLinesSchema,
+});
+
+const ReplaceLinesOperation = z.object({
+  replaceLines: LineRangeSchema,
+  newText: z.string().describe('Text to replace the lines with'),
+  expectedLines: ExpectedLinesSchema,
+});
+
+const DeleteLinesOperation = z.object({
+  deleteLines: LineRangeSchema,
+  expectedLines: ExpectedLinesSchema,
 });
 
+const EditOperation = z.union([
+  TextEditOperation,
+  InsertAtOperation,
+  ReplaceLinesOperation,
+  DeleteLinesOperation,
+]);
+
 const EditFileArgsSchema = z.object({
   path: z.string(),
   edits: z.array(EditOperation),
   dryRun: z.boolean().default(false).describe('Preview changes using git-style diff format'),
+  encoding: EncodingSchema,
+  expectedSha256: ExpectedSha256Schema,
+  expectedMtime: ExpectedMtimeSchema,
+});
+
+const StructuredEditOperation = z.object({
+  op: z.enum(['set', 'delete', 'append']),
+  path: z
+    .string()
+    .min(1)
+    .describe(
+      "JSON Pointer such as '/mcpServers/filesystem/args' or dotted path such as " +
+        "'mcpServers.filesystem.args[0]'"
+    ),
+  value: z.unknown().optional().describe("New value for 'set', or the element to 'append'"),
+});
+
+const EditStructuredArgsSchema = z.object({
+  path: z.string(),
+  operations: z.array(StructuredEditOperation).min(1),
+  format: z
+    .enum(['json', 'yaml', 'toml'])
+    .optional()
+    .describe('File format (default: inferred from the file extension)'),
+  dryRun: z.boolean().default(false).describe('Preview changes using git-style diff format'),
+  expectedSha256: ExpectedSha256Schema,
+  expectedMtime: ExpectedMtimeSchema,
 });
 
+const EditNotebookCellArgsSchema = z
+  .object({
+    path: z.string(),
+    action: z.enum(['replace', 'insert', 'delete']),
+    index: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe('0-based cell index; for insert, the position the new cell will take'),
+    cellId: z
+      .string()
+      .optional()
+      .describe('Cell id, as an alternative to index; insert places the new cell before it'),
+    cellType: z
+      .enum(['code', 'markdown', 'raw'])
+      .optional()
+      .describe('Type of the new cell (default: code for insert, unchanged for replace)'),
+    source: z.string().optional().describe('New cell source, required for replace and insert'),
+    dryRun: z.boolean().default(false).describe('Preview changes using git-style diff format'),
+    expectedSha256: ExpectedSha256Schema,
+    expectedMtime: ExpectedMtimeSchema,
+  })
+  .refine(
+    (args) => (args.index === undefined) !== (args.cellId === undefined),
+    "Exactly one of 'index' or 'cellId' is required"
+  );
+
 const CreateDirectoryArgsSchema = z.object({
   path: z.string(),
 });
@@ -131,8 +521,40 @@ const ListDirectoryArgsSchema = z.object({
   path: z.string(),
 });
 
+const RespectIgnoreFilesSchema = z
+  .boolean()
+  .default(true)
+  .describe('Skip entries matched by .gitignore, .ignore and .git/info/exclude files, and .git');
+
 const DirectoryTreeArgsSchema = z.object({
   path: z.string(),
+  maxDepth: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Maximum depth to descend; 1 lists only the direct children of path'),
+  includePatterns: z
+    .array(z.string())
+    .optional()
+    .default([])
+    .describe('Only list files matching these globs; directories without matches are omitted'),
+  excludePatterns: z.array(z.string()).optional().default([]),
+  maxEntries: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Maximum number of entries to return; directories cut short are marked truncated'),
+  includeMetadata: z
+    .boolean()
+    .default(false)
+    .describe("Add 'size', 'modified' and, for directories, 'childCount' to each entry"),
+  format: z
+    .enum(['json', 'text'])
+    .default('json')
+    .describe("'json' for the nested structure, 'text' for a compact indented listing"),
+  respectIgnoreFiles: RespectIgnoreFilesSchema,
 });
 
 const MoveFileArgsSchema = z.object({
@@ -144,10 +566,221 @@ const SearchFilesArgsSchema = z.object({
   path: z.string(),
   pattern: z.string(),
   excludePatterns: z.array(z.string()).optional().default([]),
+  respectIgnoreFiles: RespectIgnoreFilesSchema,
+});
+
+const DateTimeSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'Expected an ISO 8601 date or date-time');
+
+const FindFilesArgsSchema = z.object({
+  path: z.string(),
+  pattern: z
+    .string()
+    .default('**')
+    .describe(
+      "Glob matched against paths relative to 'path', e.g. 'src/**/*.ts'; " +
+        'patterns without a slash match the name at any depth'
+    ),
+  excludePatterns: z.array(z.string()).optional().default([]),
+  type: z.enum(['file', 'directory', 'any']).default('any'),
+  extensions: z
+    .array(z.string())
+    .optional()
+    .describe("Only files with one of these extensions, e.g. ['ts', '.tsx']"),
+  minSize: z.number().int().min(0).optional().describe('Minimum size in bytes'),
+  maxSize: z.number().int().min(0).optional().describe('Maximum size in bytes'),
+  modifiedAfter: DateTimeSchema.optional().describe('Only entries modified at or after this time'),
+  modifiedBefore: DateTimeSchema.optional().describe('Only entries modified before this time'),
+  sortBy: z.enum(['name', 'size', 'modified']).default('name'),
+  order: z
+    .enum(['asc', 'desc'])
+    .optional()
+    .describe('Sort direction (default: asc for name, desc for size and modified)'),
+  limit: z.number().int().min(1).max(1000).default(100).describe('Maximum results per page'),
+  cursor: z.string().optional().describe("The 'nextCursor' of a previous call"),
+  respectIgnoreFiles: RespectIgnoreFilesSchema,
+});
+
+const DiskUsageArgsSchema = z.object({
+  path: z.string(),
+  maxDepth: z
+    .number()
+    .int()
+    .min(0)
+    .default(2)
+    .describe('Depth down to which subdirectories are listed; deeper content is summed up'),
+  topFiles: z.number().int().min(0).max(1000).default(10).describe('Number of largest files'),
+  excludePatterns: z.array(z.string()).optional().default([]),
+  respectIgnoreFiles: z
+    .boolean()
+    .default(false)
+    .describe('Skip entries matched by .gitignore, .ignore and .git/info/exclude files'),
+});
+
+const ComparePathsArgsSchema = z.object({
+  left: z.string().describe('Original file or directory'),
+  right: z.string().describe('File or directory to compare it with'),
+  ignoreWhitespace: z
+    .boolean()
+    .default(false)
+    .describe('Treat lines that differ only in whitespace as equal'),
+  excludePatterns: z.array(z.string()).optional().default([]),
+  respectIgnoreFiles: z
+    .boolean()
+    .default(false)
+    .describe('Skip entries matched by .gitignore, .ignore and .git/info/exclude files'),
+});
+
+const ReadMediaFileArgsSchema = z.object({
+  path: z.string(),
+  encoding: z
+    .enum(['hex', 'base64'])
+    .default('hex')
+    .describe('Encoding used for the preview of non-image binary files'),
+  previewBytes: z
+    .number()
+    .int()
+    .min(0)
+    .max(65536)
+    .default(256)
+    .describe('Number of leading bytes to include in the preview of non-image binary files'),
+});
+
+const GrepFilesArgsSchema = z.object({
+  path: z.string(),
+  pattern: z.string().describe('Regular expression (or literal text when literal is true)'),
+  literal: z.boolean().default(false).describe('Treat the pattern as literal text'),
+  ignoreCase: z.boolean().default(false),
+  includePatterns: z
+    .array(z.string())
+    .optional()
+    .default([])
+    .describe("Only search files matching these globs, e.g. '*.ts' or 'src/**/*.js'"),
+  excludePatterns: z.array(z.string()).optional().default([]),
+  contextBefore: z.number().int().min(0).max(20).default(0),
+  contextAfter: z.number().int().min(0).max(20).default(0),
+  maxMatchesPerFile: z.number().int().min(1).default(50),
+  maxResults: z.number().int().min(1).default(500),
+  respectIgnoreFiles: RespectIgnoreFilesSchema,
+});
+
+const ReplaceInFilesArgsSchema = z.object({
+  path: z.string().describe('Directory to search recursively, or a single file'),
+  pattern: z.string().describe('Regular expression (or literal text when literal is true)'),
+  replacement: z
+    .string()
+    .describe("Replacement text; '$1', '$<name>' and '$&' insert captured text unless literal"),
+  literal: z
+    .boolean()
+    .default(false)
+    .describe('Treat the pattern and the replacement as literal text'),
+  ignoreCase: z.boolean().default(false),
+  includePatterns: z
+    .array(z.string())
+    .optional()
+    .default([])
+    .describe("Only change files matching these globs, e.g. '*.ts' or 'src/**/*.js'"),
+  excludePatterns: z.array(z.string()).optional().default([]),
+  dryRun: z.boolean().default(false).describe('Preview the combined diff without changing files'),
+  respectIgnoreFiles: RespectIgnoreFilesSchema,
+});
+
+const ApplyPatchArgsSchema = z.object({
+  patch: z
+    .string()
+    .describe('Unified diff, optionally with git headers, covering one or more files'),
+  basePath: z
+    .string()
+    .optional()
+    .describe(
+      'Directory that relative file names in the patch are resolved against ' +
+        '(default: the first allowed directory)'
+    ),
+  fuzz: z
+    .number()
+    .int()
+    .min(0)
+    .max(3)
+    .default(0)
+    .describe('Number of context lines per hunk that may differ from the file'),
+  dryRun: z.boolean().default(false).describe('Report per-hunk results without changing files'),
+});
+
+const FormatFileArgsSchema = z.object({
+  paths: z
+    .array(z.string())
+    .min(1)
+    .describe("Files or glob patterns such as '/project/src/**/*.ts' to format"),
+  dryRun: z.boolean().default(false).describe('Preview the diffs without changing files'),
+});
+
+const DeletePathArgsSchema = z.object({
+  path: z.string(),
+  recursive: z
+    .boolean()
+    .default(false)
+    .describe('Required to delete a directory together with its contents'),
+  useTrash: z
+    .boolean()
+    .default(true)
+    .describe('Move the path to the server trash so it can be restored (default: true)'),
+});
+
+const CopyPathArgsSchema = z.object({
+  source: z.string(),
+  destination: z.string(),
+  overwrite: z
+    .enum(['error', 'overwrite', 'skip'])
+    .default('error')
+    .describe('What to do when a destination file exists: fail, replace it, or skip it'),
+});
+
+const RestoreFromTrashArgsSchema = z.object({
+  id: z.string().describe('Trash item id as shown by list_trash'),
+  destination: z
+    .string()
+    .optional()
+    .describe('Where to restore the item (default: its original path)'),
+});
+
+const ListChangesArgsSchema = z.object({
+  limit: z.number().int().min(1).default(20).describe('Maximum number of changes to list'),
+  includeUndone: z.boolean().default(false).describe('Also list changes that were undone'),
+});
+
+const UndoChangeArgsSchema = z.object({
+  id: z.number().int().describe('Change id as shown by list_changes'),
 });
 
-const GetFileInfoArgsSchema = z.object({
+const UndoLastNArgsSchema = z.object({
+  count: z.number().int().min(1).describe('Number of most recent changes to undo'),
+});
+
+const GetFileInfoArgsSchema = z
+  .object({
+    path: z.string().optional(),
+    paths: z.array(z.string()).optional().describe('Several paths to inspect in one call'),
+    includeSha256: z
+      .boolean()
+      .default(false)
+      .describe('Also compute the SHA-256 of file contents'),
+  })
+  .refine(
+    (args) => args.path !== undefined || (args.paths?.length ?? 0) > 0,
+    "Either 'path' or 'paths' is required"
+  );
+
+const FileOutlineArgsSchema = z.object({
+  path: z.string(),
+});
+
+const ReadSymbolArgsSchema = z.object({
   path: z.string(),
+  symbol: z
+    .string()
+    .min(1)
+    .describe("Symbol name; use 'Class.member' or 'Namespace.name' for nested symbols"),
 });
 
 const ToolInputSchema = ToolSchema.shape.inputSchema;
@@ -172,13 +805,20 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      resources: {
+        subscribe: true,
+        listChanged: true,
+      },
     },
   }
 );
 
 // Tool implementations
 async function getFileStats(filePath: string): Promise<FileInfo> {
-  const stats = await fs.stat(filePath);
+  return toFileInfo(await fs.stat(filePath));
+}
+
+function toFileInfo(stats: Stats): FileInfo {
   return {
     size: stats.size,
     created: stats.birthtime,
@@ -190,14 +830,286 @@ async function getFileStats(filePath: string): Promise<FileInfo> {
   };
 }
 
+// Ignore file handling (.gitignore, .ignore, .git/info/exclude)
+interface IgnoreRules {
+  dir: string;
+  matcher: Ignore;
+}
+
+// Rules are ordered from the traversal root down to the current directory
+type IgnoreStack = IgnoreRules[];
+
+// Later files take precedence, matching git and ripgrep behaviour
+const IGNORE_FILES = [path.join('.git', 'info', 'exclude'), '.gitignore', '.ignore'];
+
+async function loadIgnoreRules(dirPath: string): Promise<IgnoreRules | null> {
+  const matcher = ignore();
+  let found = false;
+  for (const ignoreFile of IGNORE_FILES) {
+    try {
+      matcher.add(await fs.readFile(path.join(dirPath, ignoreFile), 'utf-8'));
+      found = true;
+    } catch {
+      // Missing or unreadable ignore files are simply skipped
+    }
+  }
+  return found ? { dir: dirPath, matcher } : null;
+}
+
+async function extendIgnoreStack(stack: IgnoreStack, dirPath: string): Promise<IgnoreStack> {
+  const rules = await loadIgnoreRules(dirPath);
+  return rules ? [...stack, rules] : stack;
+}
+
+// Collect the rules of every directory from the enclosing allowed directory down to rootPath,
+// so that a .gitignore above the starting point still applies
+async function createIgnoreStack(rootPath: string): Promise<IgnoreStack> {
+  const allowedRoot = allowedDirectories
+    .filter((dir) => isPathWithin(rootPath, dir))
+    .sort((a, b) => a.length - b.length)[0];
+  const directories: string[] = [];
+  for (let dir = rootPath; ; dir = path.dirname(dir)) {
+    directories.unshift(dir);
+    if (!allowedRoot || dir === allowedRoot || dir === path.dirname(dir)) {
+      break;
+    }
+  }
+
+  let stack: IgnoreStack = [];
+  for (const dir of directories) {
+    stack = await extendIgnoreStack(stack, dir);
+  }
+  return stack;
+}
+
+function isIgnoredPath(stack: IgnoreStack, fullPath: string, isDirectory: boolean): boolean {
+  if (path.basename(fullPath) === '.git') {
+    return true;
+  }
+  // The deepest rule set that has an opinion wins, so nested negations work
+  for (let i = stack.length - 1; i >= 0; i--) {
+    const rules = stack[i]!;
+    const relativePath = path.relative(rules.dir, fullPath).split(path.sep).join('/');
+    if (!relativePath || relativePath.startsWith('..')) {
+      continue;
+    }
+    const { ignored, unignored } = rules.matcher.test(
+      isDirectory ? `${relativePath}/` : relativePath
+    );
+    if (ignored) {
+      return true;
+    }
+    if (unignored) {
+      return false;
+    }
+  }
+  return false;
+}
+
+// Bare names such as 'node_modules' exclude that directory anywhere in the tree
+function matchesExcludePattern(relativePath: string, excludePatterns: string[]): boolean {
+  return excludePatterns.some((pattern) => {
+    const globPattern = pattern.includes('*') ? pattern : `**/${pattern}/**`;
+    return minimatch(relativePath, globPattern, { dot: true });
+  });
+}
+
+// Patterns without a slash match against the file name at any depth
+function matchesIncludePattern(relativePath: string, includePatterns: string[]): boolean {
+  if (includePatterns.length === 0) {
+    return true;
+  }
+  return includePatterns.some((pattern) =>
+    minimatch(relativePath, pattern, { dot: true, matchBase: !pattern.includes('/') })
+  );
+}
+
+interface TreeEntry {
+  name: string;
+  type: 'file' | 'directory';
+  size?: number;
+  modified?: string;
+  childCount?: number;
+  // Set when maxDepth or maxEntries stopped the listing of this directory early
+  truncated?: boolean;
+  omittedEntries?: number;
+  children?: TreeEntry[];
+}
+
+interface TreeOptions {
+  maxDepth?: number;
+  includePatterns: string[];
+  excludePatterns: string[];
+  maxEntries?: number;
+  includeMetadata: boolean;
+  respectIgnoreFiles: boolean;
+}
+
+async function buildDirectoryTree(
+  rootPath: string,
+  options: TreeOptions
+): Promise<{ entries: TreeEntry[]; omittedEntries: number; limitReached: boolean }> {
+  let entryCount = 0;
+  let limitReached = false;
+
+  async function listVisibleEntries(dirPath: string, ignoreStack: IgnoreStack | null) {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    return entries.filter((entry) => {
+      const fullPath = path.join(dirPath, entry.name);
+      if (
+        isDeniedPath(fullPath) ||
+        matchesExcludePattern(path.relative(rootPath, fullPath), options.excludePatterns)
+      ) {
+        return false;
+      }
+      return !(ignoreStack && isIgnoredPath(ignoreStack, fullPath, entry.isDirectory()));
+    });
+  }
+
+  // Entries of a directory that is not listed in full which would pass the include filter
+  async function countEntries(dirPath: string, ignoreStack: IgnoreStack | null) {
+    const entries = await listVisibleEntries(dirPath, ignoreStack);
+    return entries.filter(
+      (entry) =>
+        entry.isDirectory() ||
+        matchesIncludePattern(
+          path.relative(rootPath, path.join(dirPath, entry.name)),
+          options.includePatterns
+        )
+    ).length;
+  }
+
+  async function buildTree(
+    currentPath: string,
+    depth: number,
+    ignoreStack: IgnoreStack | null
+  ): Promise<{ children: TreeEntry[]; omitted: number }> {
+    const visible = await listVisibleEntries(currentPath, ignoreStack);
+    const children: TreeEntry[] = [];
+    let omitted = 0;
+
+    for (const entry of visible) {
+      if (options.maxEntries !== undefined && entryCount >= options.maxEntries) {
+        limitReached = true;
+        omitted = visible.length - visible.indexOf(entry);
+        break;
+      }
+
+      const fullPath = path.join(currentPath, entry.name);
+      try {
+        // Validate each path before processing
+        await validatePath(fullPath);
+      } catch {
+        continue;
+      }
+
+      const isDirectory = entry.isDirectory();
+      if (
+        !isDirectory &&
+        !matchesIncludePattern(path.relative(rootPath, fullPath), options.includePatterns)
+      ) {
+        continue;
+      }
+
+      const entryData: TreeEntry = { name: entry.name, type: isDirectory ? 'directory' : 'file' };
+      if (options.includeMetadata) {
+        try {
+          const stats = await fs.stat(fullPath);
+          entryData.size = stats.size;
+          entryData.modified = stats.mtime.toISOString();
+        } catch {
+          // Broken symlinks have no stats to report
+        }
+      }
+      entryCount++;
+
+      if (isDirectory) {
+        const childIgnoreStack = ignoreStack && (await extendIgnoreStack(ignoreStack, fullPath));
+        if (options.maxDepth !== undefined && depth >= options.maxDepth) {
+          entryData.truncated = true;
+          if (options.includeMetadata) {
+            entryData.childCount = await countEntries(fullPath, childIgnoreStack);
+          }
+        } else {
+          const subtree = await buildTree(fullPath, depth + 1, childIgnoreStack);
+          // With an include filter, directories holding no matching files are left out
+          if (options.includePatterns.length > 0 && subtree.children.length === 0) {
+            entryCount--;
+            continue;
+          }
+          entryData.children = subtree.children;
+          if (options.includeMetadata) {
+            entryData.childCount =
+              subtree.omitted > 0
+                ? await countEntries(fullPath, childIgnoreStack)
+                : subtree.children.length;
+          }
+          if (subtree.omitted > 0) {
+            entryData.truncated = true;
+            entryData.omittedEntries = subtree.omitted;
+          }
+        }
+      }
+
+      children.push(entryData);
+    }
+
+    return { children, omitted };
+  }
+
+  const root = await buildTree(
+    rootPath,
+    1,
+    options.respectIgnoreFiles ? await createIgnoreStack(rootPath) : null
+  );
+  return { entries: root.children, omittedEntries: root.omitted, limitReached };
+}
+
+function formatTreeEntryDetails(entry: TreeEntry): string {
+  const details: string[] = [];
+  if (entry.size !== undefined && entry.type === 'file') details.push(`${entry.size} B`);
+  if (entry.childCount !== undefined) details.push(`${entry.childCount} entries`);
+  if (entry.modified !== undefined) details.push(entry.modified);
+  return details.length > 0 ? ` (${details.join(', ')})` : '';
+}
+
+function formatTreeText(rootName: string, entries: TreeEntry[], omittedEntries: number): string {
+  const lines = [`${rootName}/`];
+
+  function render(items: TreeEntry[], indent: string) {
+    for (const item of items) {
+      if (item.type === 'directory') {
+        lines.push(`${indent}${item.name}/${formatTreeEntryDetails(item)}`);
+        if (item.children) {
+          render(item.children, indent + '  ');
+        } else if (item.truncated) {
+          lines.push(`${indent}  ... (max depth reached)`);
+        }
+        if (item.omittedEntries) {
+          lines.push(`${indent}  ... ${item.omittedEntries} more entries`);
+        }
+      } else {
+        lines.push(`${indent}${item.name}${formatTreeEntryDetails(item)}`);
+      }
+    }
+  }
+
+  render(entries, '  ');
+  if (omittedEntries > 0) {
+    lines.push(`  ... ${omittedEntries} more entries`);
+  }
+  return lines.join('\n');
+}
+
 async function searchFiles(
   rootPath: string,
   pattern: string,
-  excludePatterns: string[] = []
+  excludePatterns: string[] = [],
+  respectIgnoreFiles = true
 ): Promise<string[]> {
   const results: string[] = [];
 
-  async function search(currentPath: string) {
+  async function search(currentPath: string, ignoreStack: IgnoreStack | null) {
     const entries = await fs.readdir(currentPath, { withFileTypes: true });
 
     for (const entry of entries) {
@@ -209,12 +1121,10 @@ async function searchFiles(
 
         // Check if path matches any exclude pattern
         const relativePath = path.relative(rootPath, fullPath);
-        const shouldExclude = excludePatterns.some((pattern) => {
-          const globPattern = pattern.includes('*') ? pattern : `**/${pattern}/**`;
-          return minimatch(relativePath, globPattern, { dot: true });
-        });
-
-        if (shouldExclude) {
+        if (matchesExcludePattern(relativePath, excludePatterns)) {
+          continue;
+        }
+        if (ignoreStack && isIgnoredPath(ignoreStack, fullPath, entry.isDirectory())) {
           continue;
         }
 
@@ -223,7 +1133,7 @@ async function searchFiles(
         }
 
         if (entry.isDirectory()) {
-          await search(fullPath);
+          await search(fullPath, ignoreStack && (await extendIgnoreStack(ignoreStack, fullPath)));
         }
       } catch (error) {
         // Skip invalid paths during search
@@ -232,110 +1142,3627 @@ async function searchFiles(
     }
   }
 
-  await search(rootPath);
+  await search(rootPath, respectIgnoreFiles ? await createIgnoreStack(rootPath) : null);
   return results;
 }
 
-// file editing and diffing utilities
-function normalizeLineEndings(text: string): string {
-  return text.replace(/\r\n/g, '\n');
-}
+type FindFilesOptions = z.infer<typeof FindFilesArgsSchema>;
 
-function createUnifiedDiff(
-  originalContent: string,
-  newContent: string,
-  filepath: string = 'file'
-): string {
-  // Ensure consistent line endings for diff
-  const normalizedOriginal = normalizeLineEndings(originalContent);
-  const normalizedNew = normalizeLineEndings(newContent);
+interface FoundEntry extends FileInfo {
+  path: string;
+}
 
-  return createTwoFilesPatch(
-    filepath,
-    filepath,
-    normalizedOriginal,
-    normalizedNew,
-    'original',
-    'modified'
+async function findFiles(
+  rootPath: string,
+  options: FindFilesOptions
+): Promise<{ entries: FoundEntry[]; total: number; nextCursor?: string }> {
+  const offset = options.cursor ? Number.parseInt(options.cursor, 10) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error(`Invalid cursor: ${options.cursor}`);
+  }
+  const extensions = options.extensions?.map((extension) =>
+    (extension.startsWith('.') ? extension : `.${extension}`).toLowerCase()
   );
-}
+  const modifiedAfter = options.modifiedAfter ? Date.parse(options.modifiedAfter) : undefined;
+  const modifiedBefore = options.modifiedBefore ? Date.parse(options.modifiedBefore) : undefined;
 
-async function applyFileEdits(
-  filePath: string,
-  edits: Array<{ oldText: string; newText: string }>,
-  dryRun = false
-): Promise<string> {
-  // Read file content and normalize line endings
-  const content = normalizeLineEndings(await fs.readFile(filePath, 'utf-8'));
+  const matches: FoundEntry[] = [];
 
-  // Apply edits sequentially
+  function matchesFilters(fullPath: string, info: FileInfo): boolean {
+    if (options.type === 'file' && !info.isFile) {
+      return false;
+    }
+    if (options.type === 'directory' && !info.isDirectory) {
+      return false;
+    }
+    if (extensions && !(info.isFile && extensions.includes(path.extname(fullPath).toLowerCase()))) {
+      return false;
+    }
+    // Sizes only apply to files; directories report their inode size
+    if (options.minSize !== undefined && !(info.isFile && info.size >= options.minSize)) {
+      return false;
+    }
+    if (options.maxSize !== undefined && !(info.isFile && info.size <= options.maxSize)) {
+      return false;
+    }
+    const modified = info.modified.getTime();
+    if (modifiedAfter !== undefined && modified < modifiedAfter) {
+      return false;
+    }
+    if (modifiedBefore !== undefined && modified >= modifiedBefore) {
+      return false;
+    }
+    return true;
+  }
+
+  async function search(currentPath: string, ignoreStack: IgnoreStack | null) {
+    const entries = await fs.readdir(currentPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(currentPath, entry.name);
+
+      try {
+        // Validate each path before processing
+        await validatePath(fullPath);
+
+        const relativePath = path.relative(rootPath, fullPath).split(path.sep).join('/');
+        if (matchesExcludePattern(relativePath, options.excludePatterns)) {
+          continue;
+        }
+        if (ignoreStack && isIgnoredPath(ignoreStack, fullPath, entry.isDirectory())) {
+          continue;
+        }
+
+        // lstat, so symlinks are reported as themselves and never followed into loops
+        const info = toFileInfo(await fs.lstat(fullPath));
+        if (
+          matchesIncludePattern(relativePath, [options.pattern]) &&
+          matchesFilters(fullPath, info)
+        ) {
+          matches.push({ path: fullPath, ...info });
+        }
+
+        if (entry.isDirectory()) {
+          await search(fullPath, ignoreStack && (await extendIgnoreStack(ignoreStack, fullPath)));
+        }
+      } catch {
+        // Skip invalid paths during search
+        continue;
+      }
+    }
+  }
+
+  await search(rootPath, options.respectIgnoreFiles ? await createIgnoreStack(rootPath) : null);
+
+  const order = options.order ?? (options.sortBy === 'name' ? 'asc' : 'desc');
+  const direction = order === 'asc' ? 1 : -1;
+  matches.sort((a, b) => {
+    const difference =
+      options.sortBy === 'size'
+        ? a.size - b.size
+        : options.sortBy === 'modified'
+          ? a.modified.getTime() - b.modified.getTime()
+          : 0;
+    // Ties are broken by path so that pages are stable across calls
+    return (difference || a.path.localeCompare(b.path)) * direction;
+  });
+
+  const entries = matches.slice(offset, offset + options.limit);
+  const nextOffset = offset + entries.length;
+  return {
+    entries,
+    total: matches.length,
+    ...(nextOffset < matches.length && { nextCursor: String(nextOffset) }),
+  };
+}
+
+// Content search utilities
+interface GrepOptions {
+  includePatterns: string[];
+  excludePatterns: string[];
+  contextBefore: number;
+  contextAfter: number;
+  maxMatchesPerFile: number;
+  maxResults: number;
+  respectIgnoreFiles: boolean;
+}
+
+interface GrepMatch {
+  line: number;
+  column: number;
+}
+
+interface GrepResult {
+  output: string[];
+  matchCount: number;
+  fileCount: number;
+  limitReached: boolean;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Render the matches of one file grep-style: 'path:line:col: text' for matches,
+// 'path-line- text' for context lines and '--' between non-adjacent groups
+function formatGrepMatches(
+  filePath: string,
+  lines: string[],
+  matches: GrepMatch[],
+  contextBefore: number,
+  contextAfter: number
+): string[] {
+  const output: string[] = [];
+  const matchColumns = new Map(matches.map((match) => [match.line, match.column]));
+  let lastPrinted = 0;
+
+  for (const match of matches) {
+    const from = Math.max(match.line - contextBefore, lastPrinted + 1);
+    const to = Math.min(match.line + contextAfter, lines.length);
+    if (lastPrinted > 0 && from > lastPrinted + 1) {
+      output.push('--');
+    }
+    for (let lineNumber = from; lineNumber <= to; lineNumber++) {
+      const text = lines[lineNumber - 1] ?? '';
+      const column = matchColumns.get(lineNumber);
+      output.push(
+        column !== undefined
+          ? `${filePath}:${lineNumber}:${column}: ${text}`
+          : `${filePath}-${lineNumber}- ${text}`
+      );
+    }
+    lastPrinted = Math.max(lastPrinted, to);
+  }
+
+  return output;
+}
+
+async function grepFiles(
+  rootPath: string,
+  regex: RegExp,
+  options: GrepOptions
+): Promise<GrepResult> {
+  const result: GrepResult = { output: [], matchCount: 0, fileCount: 0, limitReached: false };
+
+  async function grepFile(filePath: string) {
+    const buffer = await fs.readFile(filePath);
+    if (isBinaryContent(buffer)) {
+      return;
+    }
+
+    const lines = buffer.toString('utf-8').split(/\r?\n/);
+    if (lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    const matches: GrepMatch[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      const match = regex.exec(lines[i] ?? '');
+      if (!match) {
+        continue;
+      }
+      if (result.matchCount >= options.maxResults) {
+        result.limitReached = true;
+        break;
+      }
+      matches.push({ line: i + 1, column: match.index + 1 });
+      result.matchCount++;
+      if (matches.length >= options.maxMatchesPerFile) {
+        break;
+      }
+    }
+
+    if (matches.length > 0) {
+      if (result.fileCount > 0 && (options.contextBefore > 0 || options.contextAfter > 0)) {
+        result.output.push('--');
+      }
+      result.fileCount++;
+      result.output.push(
+        ...formatGrepMatches(filePath, lines, matches, options.contextBefore, options.contextAfter)
+      );
+    }
+  }
+
+  async function search(currentPath: string, ignoreStack: IgnoreStack | null) {
+    const entries = await fs.readdir(currentPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      if (result.limitReached) {
+        return;
+      }
+      const fullPath = path.join(currentPath, entry.name);
+
+      try {
+        // Validate each path before processing
+        await validatePath(fullPath);
+
+        const relativePath = path.relative(rootPath, fullPath);
+        if (matchesExcludePattern(relativePath, options.excludePatterns)) {
+          continue;
+        }
+        if (ignoreStack && isIgnoredPath(ignoreStack, fullPath, entry.isDirectory())) {
+          continue;
+        }
+
+        if (entry.isDirectory()) {
+          await search(fullPath, ignoreStack && (await extendIgnoreStack(ignoreStack, fullPath)));
+        } else if (entry.isFile() && matchesIncludePattern(relativePath, options.includePatterns)) {
+          await grepFile(fullPath);
+        }
+      } catch {
+        // Skip unreadable or invalid paths during search
+        continue;
+      }
+    }
+  }
+
+  const stats = await fs.stat(rootPath);
+  if (stats.isDirectory()) {
+    await search(rootPath, options.respectIgnoreFiles ? await createIgnoreStack(rootPath) : null);
+  } else {
+    await grepFile(rootPath);
+  }
+  return result;
+}
+
+// Disk usage
+interface DirectoryUsage {
+  path: string;
+  size: number;
+  files: number;
+  directories: number;
+  children?: DirectoryUsage[];
+}
+
+interface ExtensionUsage {
+  extension: string;
+  files: number;
+  size: number;
+}
+
+interface DiskUsage {
+  root: DirectoryUsage;
+  largestFiles: { path: string; size: number }[];
+  extensions: ExtensionUsage[];
+}
+
+type DiskUsageOptions = z.infer<typeof DiskUsageArgsSchema>;
+
+async function getDiskUsage(rootPath: string, options: DiskUsageOptions): Promise<DiskUsage> {
+  if (!(await fs.stat(rootPath)).isDirectory()) {
+    throw new Error(`Not a directory: ${rootPath}`);
+  }
+  const largestFiles: { path: string; size: number }[] = [];
+  const extensions = new Map<string, ExtensionUsage>();
+
+  function recordFile(filePath: string, size: number) {
+    const extension = path.extname(filePath).toLowerCase() || '(none)';
+    const usage = extensions.get(extension) ?? { extension, files: 0, size: 0 };
+    usage.files++;
+    usage.size += size;
+    extensions.set(extension, usage);
+
+    if (options.topFiles === 0) {
+      return;
+    }
+    const smallest = largestFiles[largestFiles.length - 1];
+    if (largestFiles.length < options.topFiles || size > smallest!.size) {
+      largestFiles.push({ path: filePath, size });
+      largestFiles.sort((a, b) => b.size - a.size);
+      largestFiles.length = Math.min(largestFiles.length, options.topFiles);
+    }
+  }
+
+  async function walk(
+    currentPath: string,
+    depth: number,
+    ignoreStack: IgnoreStack | null
+  ): Promise<DirectoryUsage> {
+    const usage: DirectoryUsage = { path: currentPath, size: 0, files: 0, directories: 0 };
+    const children: DirectoryUsage[] = [];
+    const entries = await fs.readdir(currentPath, { withFileTypes: true }).catch(() => []);
+
+    for (const entry of entries) {
+      const fullPath = path.join(currentPath, entry.name);
+
+      try {
+        // Validate each path before processing
+        await validatePath(fullPath);
+
+        // Check if path matches any exclude pattern
+        const relativePath = path.relative(rootPath, fullPath);
+        if (matchesExcludePattern(relativePath, options.excludePatterns)) {
+          continue;
+        }
+        if (ignoreStack && isIgnoredPath(ignoreStack, fullPath, entry.isDirectory())) {
+          continue;
+        }
+
+        // Symlinks are counted by their own size and never followed, so nothing is counted twice
+        if (entry.isDirectory()) {
+          const child = await walk(
+            fullPath,
+            depth + 1,
+            ignoreStack && (await extendIgnoreStack(ignoreStack, fullPath))
+          );
+          usage.size += child.size;
+          usage.files += child.files;
+          usage.directories += child.directories + 1;
+          children.push(child);
+        } else {
+          const stats = await fs.lstat(fullPath);
+          usage.size += stats.size;
+          usage.files++;
+          recordFile(fullPath, stats.size);
+        }
+      } catch {
+        // Skip invalid paths during the walk
+        continue;
+      }
+    }
+
+    if (depth < options.maxDepth) {
+      usage.children = children.sort((a, b) => b.size - a.size);
+    }
+    return usage;
+  }
+
+  const root = await walk(
+    rootPath,
+    0,
+    options.respectIgnoreFiles ? await createIgnoreStack(rootPath) : null
+  );
+  return {
+    root,
+    largestFiles,
+    extensions: [...extensions.values()].sort((a, b) => b.size - a.size),
+  };
+}
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${bytes} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+function formatTable(headers: string[], rows: string[][], rightAligned: number[]): string {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => row[column]!.length))
+  );
+  return [headers, ...rows]
+    .map((row) =>
+      row
+        .map((cell, column) =>
+          column === row.length - 1
+            ? cell
+            : rightAligned.includes(column)
+              ? cell.padStart(widths[column]!)
+              : cell.padEnd(widths[column]!)
+        )
+        .join('  ')
+    )
+    .join('\n');
+}
+
+function formatDiskUsage(usage: DiskUsage): string {
+  const { root } = usage;
+  const directoryRows: string[][] = [];
+  const addDirectory = (directory: DirectoryUsage, depth: number) => {
+    const name = depth === 0 ? directory.path : path.basename(directory.path) + '/';
+    directoryRows.push([
+      formatBytes(directory.size),
+      String(directory.files),
+      '  '.repeat(depth) + name,
+    ]);
+    directory.children?.forEach((child) => addDirectory(child, depth + 1));
+  };
+  addDirectory(root, 0);
+
+  const sections = [
+    `${formatBytes(root.size)} in ${root.files} files and ${root.directories} directories`,
+    formatTable(['Size', 'Files', 'Directory'], directoryRows, [0, 1]),
+  ];
+  if (usage.largestFiles.length > 0) {
+    const rows = usage.largestFiles.map((file) => [formatBytes(file.size), file.path]);
+    sections.push(`Largest files:\n${formatTable(['Size', 'File'], rows, [0])}`);
+  }
+  if (usage.extensions.length > 0) {
+    const rows = usage.extensions.map((extension) => [
+      formatBytes(extension.size),
+      String(extension.files),
+      extension.extension,
+    ]);
+    sections.push(`By extension:\n${formatTable(['Size', 'Files', 'Extension'], rows, [0, 1])}`);
+  }
+  return sections.join('\n\n');
+}
+
+// Comparing files and directories
+type ComparisonStatus = 'added' | 'removed' | 'modified' | 'identical';
+
+interface FileComparison {
+  relativePath: string;
+  status: ComparisonStatus;
+  diff?: string;
+  // Hashes of binary files that differ
+  leftSha256?: string;
+  rightSha256?: string;
+}
+
+type CompareOptions = z.infer<typeof ComparePathsArgsSchema>;
+
+async function compareFiles(
+  leftPath: string,
+  rightPath: string,
+  relativePath: string,
+  ignoreWhitespace: boolean
+): Promise<FileComparison> {
+  const [left, right] = await Promise.all([fs.readFile(leftPath), fs.readFile(rightPath)]);
+  if (left.equals(right)) {
+    return { relativePath, status: 'identical' };
+  }
+  if (isBinaryContent(left) || isBinaryContent(right)) {
+    return {
+      relativePath,
+      status: 'modified',
+      leftSha256: sha256(left),
+      rightSha256: sha256(right),
+    };
+  }
+  const diff = createUnifiedDiff(
+    decodeTextBuffer(leftPath, left),
+    decodeTextBuffer(rightPath, right),
+    leftPath,
+    { newFilepath: rightPath, ignoreWhitespace }
+  );
+  // Without hunks the files differ only in ignored whitespace or line endings
+  if (!diff.includes('\n@@ ')) {
+    return { relativePath, status: 'identical' };
+  }
+  return { relativePath, status: 'modified', diff };
+}
+
+// Files below rootPath by relative path; directories only matter through their files
+async function listComparableFiles(
+  rootPath: string,
+  options: CompareOptions
+): Promise<Map<string, string>> {
+  const files = new Map<string, string>();
+
+  async function walk(currentPath: string, ignoreStack: IgnoreStack | null) {
+    const entries = await fs.readdir(currentPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(currentPath, entry.name);
+
+      try {
+        // Validate each path before processing
+        await validatePath(fullPath);
+
+        const relativePath = path.relative(rootPath, fullPath);
+        if (matchesExcludePattern(relativePath, options.excludePatterns)) {
+          continue;
+        }
+        if (ignoreStack && isIgnoredPath(ignoreStack, fullPath, entry.isDirectory())) {
+          continue;
+        }
+
+        if (entry.isDirectory()) {
+          await walk(fullPath, ignoreStack && (await extendIgnoreStack(ignoreStack, fullPath)));
+        } else if (entry.isFile()) {
+          files.set(relativePath, fullPath);
+        }
+      } catch {
+        // Skip invalid paths during the walk
+        continue;
+      }
+    }
+  }
+
+  await walk(rootPath, options.respectIgnoreFiles ? await createIgnoreStack(rootPath) : null);
+  return files;
+}
+
+async function comparePaths(
+  leftPath: string,
+  rightPath: string,
+  options: CompareOptions
+): Promise<string> {
+  const [leftStats, rightStats] = await Promise.all([fs.stat(leftPath), fs.stat(rightPath)]);
+  if (leftStats.isDirectory() !== rightStats.isDirectory()) {
+    throw new Error('Cannot compare a file with a directory');
+  }
+
+  let comparisons: FileComparison[];
+  if (!leftStats.isDirectory()) {
+    comparisons = [
+      await compareFiles(leftPath, rightPath, path.basename(leftPath), options.ignoreWhitespace),
+    ];
+  } else {
+    const [leftFiles, rightFiles] = await Promise.all([
+      listComparableFiles(leftPath, options),
+      listComparableFiles(rightPath, options),
+    ]);
+    const relativePaths = [...new Set([...leftFiles.keys(), ...rightFiles.keys()])].sort();
+    comparisons = [];
+    for (const relativePath of relativePaths) {
+      const leftFile = leftFiles.get(relativePath);
+      const rightFile = rightFiles.get(relativePath);
+      if (leftFile === undefined) {
+        comparisons.push({ relativePath, status: 'added' });
+      } else if (rightFile === undefined) {
+        comparisons.push({ relativePath, status: 'removed' });
+      } else {
+        comparisons.push(
+          await compareFiles(leftFile, rightFile, relativePath, options.ignoreWhitespace)
+        );
+      }
+    }
+  }
+
+  const counts = (status: ComparisonStatus) =>
+    comparisons.filter((comparison) => comparison.status === status).length;
+  const heading =
+    `Compared ${leftPath} with ${rightPath}: ${counts('added')} added, ` +
+    `${counts('removed')} removed, ${counts('modified')} modified, ` +
+    `${counts('identical')} identical`;
+  const changed = comparisons.filter((comparison) => comparison.status !== 'identical');
+  if (changed.length === 0) {
+    return heading;
+  }
+
+  const report = changed.map((comparison) => {
+    const hashes =
+      comparison.leftSha256 !== undefined
+        ? ` (binary, sha256 ${comparison.leftSha256} -> ${comparison.rightSha256})`
+        : '';
+    return `${comparison.status}: ${comparison.relativePath}${hashes}`;
+  });
+  const diffs = changed.flatMap((comparison) => (comparison.diff ? [comparison.diff] : []));
+  const diffBlock = diffs.length > 0 ? `\n\n${fenceDiff(diffs.join(''))}` : '';
+  return `${heading}\n\n${report.join('\n')}${diffBlock}`.trimEnd();
+}
+
+// Multi-file search and replace
+interface ReplaceOptions {
+  includePatterns: string[];
+  excludePatterns: string[];
+  respectIgnoreFiles: boolean;
+}
+
+interface FileReplacement {
+  filePath: string;
+  matchCount: number;
+  original: Buffer;
+  updated: Buffer;
+  diff: string;
+}
+
+async function replaceInFiles(
+  rootPath: string,
+  regex: RegExp,
+  replacement: string,
+  options: ReplaceOptions,
+  dryRun: boolean
+): Promise<string> {
+  const replacements: FileReplacement[] = [];
+  let binaryCount = 0;
+
+  async function replaceInFile(filePath: string) {
+    const buffer = await fs.readFile(filePath);
+    if (isBinaryContent(buffer)) {
+      binaryCount++;
+      return;
+    }
+    const decoded = decodeTextContent(filePath, buffer);
+    const content = normalizeLineEndings(decoded.text);
+    const matchCount = [...content.matchAll(regex)].length;
+    if (matchCount === 0) {
+      return;
+    }
+    const modifiedContent = content.replace(regex, replacement);
+    const restored = restoreTextFormat(modifiedContent, decoded.format);
+    replacements.push({
+      filePath,
+      matchCount,
+      original: buffer,
+      updated: encodeTextContent(restored, decoded.format.encoding, decoded.format.bom),
+      diff: createUnifiedDiff(content, modifiedContent, filePath),
+    });
+  }
+
+  async function search(currentPath: string, ignoreStack: IgnoreStack | null) {
+    const entries = await fs.readdir(currentPath, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const fullPath = path.join(currentPath, entry.name);
+
+      try {
+        // Validate each path before processing
+        await validatePath(fullPath);
+
+        const relativePath = path.relative(rootPath, fullPath);
+        if (matchesExcludePattern(relativePath, options.excludePatterns)) {
+          continue;
+        }
+        if (ignoreStack && isIgnoredPath(ignoreStack, fullPath, entry.isDirectory())) {
+          continue;
+        }
+
+        if (entry.isDirectory()) {
+          await search(fullPath, ignoreStack && (await extendIgnoreStack(ignoreStack, fullPath)));
+        } else if (entry.isFile() && matchesIncludePattern(relativePath, options.includePatterns)) {
+          await replaceInFile(fullPath);
+        }
+      } catch {
+        // Skip unreadable or invalid paths during search
+        continue;
+      }
+    }
+  }
+
+  const stats = await fs.stat(rootPath);
+  if (stats.isDirectory()) {
+    await search(rootPath, options.respectIgnoreFiles ? await createIgnoreStack(rootPath) : null);
+  } else {
+    await replaceInFile(rootPath);
+  }
+
+  const binaryNote = binaryCount > 0 ? `\nSkipped ${binaryCount} binary file(s).` : '';
+  if (replacements.length === 0) {
+    return `No matches found${binaryNote}`;
+  }
+  if (!dryRun) {
+    replacements.forEach(({ filePath }) => assertWritable(filePath));
+  }
+
+  const totalMatches = replacements.reduce((sum, { matchCount }) => sum + matchCount, 0);
+  const heading = dryRun
+    ? `Dry run: would replace ${totalMatches} match(es) in ${replacements.length} file(s)`
+    : `Replaced ${totalMatches} match(es) in ${replacements.length} file(s)`;
+  const report = replacements.map(({ filePath, matchCount }) => `${filePath}: ${matchCount}`);
+  const diff = fenceDiff(replacements.map((replacement) => replacement.diff).join(''));
+  const summary = `${heading}:\n${report.join('\n')}${binaryNote}\n\n${diff}`;
+  if (dryRun) {
+    return summary;
+  }
+
+  // Write every file, restoring the originals if any write fails
+  const pendingChanges = await Promise.all(
+    replacements.map(({ filePath }) => captureFileState(filePath))
+  );
+  const written: FileReplacement[] = [];
+  try {
+    for (const replacement of replacements) {
+      written.push(replacement);
+      await writeFileAtomic(replacement.filePath, replacement.updated);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const rollbackErrors: string[] = [];
+    for (const { filePath, original } of written.reverse()) {
+      try {
+        await writeFileAtomic(filePath, original);
+      } catch (rollbackError) {
+        rollbackErrors.push(
+          `${filePath}: ${rollbackError instanceof Error ? rollbackError.message : rollbackError}`
+        );
+      }
+    }
+    if (rollbackErrors.length > 0) {
+      throw new Error(
+        `Failed to write files: ${errorMessage}\n` +
+          'Rolling back also failed, the following files may be left modified:\n' +
+          rollbackErrors.join('\n')
+      );
+    }
+    throw new Error(`Failed to write files, changes were rolled back: ${errorMessage}`);
+  }
+  await recordChange('replace_in_files', pendingChanges);
+
+  return summary;
+}
+
+// MIME detection and binary file utilities
+interface MagicSignature {
+  mime: string;
+  bytes: Array<number | null>; // null matches any byte
+  offset?: number;
+  // Short signatures that plain text can start with only count for these extensions
+  extensions?: string[];
+}
+
+const MAGIC_SIGNATURES: MagicSignature[] = [
+  { mime: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mime: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mime: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  {
+    mime: 'image/webp',
+    bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50],
+  },
+  // 'BM', the file size, then four reserved zero bytes
+  { mime: 'image/bmp', bytes: [0x42, 0x4d, null, null, null, null, 0x00, 0x00, 0x00, 0x00] },
+  { mime: 'image/tiff', bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { mime: 'image/tiff', bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { mime: 'image/x-icon', bytes: [0x00, 0x00, 0x01, 0x00] },
+  { mime: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { mime: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { mime: 'application/gzip', bytes: [0x1f, 0x8b] },
+  { mime: 'application/x-7z-compressed', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { mime: 'application/x-bzip2', bytes: [0x42, 0x5a, 0x68] },
+  { mime: 'application/x-xz', bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00] },
+  { mime: 'application/x-tar', bytes: [0x75, 0x73, 0x74, 0x61, 0x72], offset: 257 },
+  { mime: 'application/wasm', bytes: [0x00, 0x61, 0x73, 0x6d] },
+  { mime: 'application/x-elf', bytes: [0x7f, 0x45, 0x4c, 0x46] },
+  { mime: 'application/x-mach-binary', bytes: [0xcf, 0xfa, 0xed, 0xfe] },
+  {
+    mime: 'application/vnd.microsoft.portable-executable',
+    bytes: [0x4d, 0x5a],
+    extensions: ['.exe', '.dll', '.sys', '.scr', '.efi'],
+  },
+  {
+    mime: 'application/vnd.sqlite3',
+    bytes: [0x53, 0x51, 0x4c, 0x69, 0x74, 0x65, 0x20, 0x66, 0x6f, 0x72, 0x6d, 0x61, 0x74],
+  },
+  // 'ID3', the major version, then a revision that is always zero
+  { mime: 'audio/mpeg', bytes: [0x49, 0x44, 0x33, null, 0x00] },
+  { mime: 'audio/ogg', bytes: [0x4f, 0x67, 0x67, 0x53] },
+  { mime: 'audio/flac', bytes: [0x66, 0x4c, 0x61, 0x43] },
+  {
+    mime: 'audio/wav',
+    bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x41, 0x56, 0x45],
+  },
+  { mime: 'video/mp4', bytes: [0x66, 0x74, 0x79, 0x70], offset: 4 },
+  { mime: 'font/woff', bytes: [0x77, 0x4f, 0x46, 0x46] },
+  { mime: 'font/woff2', bytes: [0x77, 0x4f, 0x46, 0x32] },
+];
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.ico': 'image/x-icon',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.tar': 'application/x-tar',
+  '.wasm': 'application/wasm',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.flac': 'audio/flac',
+  '.mp4': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.css': 'text/css',
+  '.csv': 'text/csv',
+  '.xml': 'application/xml',
+  '.json': 'application/json',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.cjs': 'text/javascript',
+  '.ts': 'text/typescript',
+  '.tsx': 'text/typescript',
+  '.jsx': 'text/javascript',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.toml': 'application/toml',
+  '.sh': 'application/x-sh',
+  '.py': 'text/x-python',
+};
+
+// Image types that can be returned to the client as MCP image content
+const INLINE_IMAGE_MIME_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+// Only the head of a file is inspected when sniffing for binary content
+const BINARY_SNIFF_BYTES = 8000;
+
+function matchesSignature(buffer: Buffer, signature: MagicSignature, filePath: string): boolean {
+  const offset = signature.offset ?? 0;
+  if (buffer.length < offset + signature.bytes.length) {
+    return false;
+  }
+  if (
+    signature.extensions &&
+    !signature.extensions.includes(path.extname(filePath).toLowerCase())
+  ) {
+    return false;
+  }
+  return signature.bytes.every((byte, i) => byte === null || buffer[offset + i] === byte);
+}
+
+async function readFileHead(filePath: string, bytes: number): Promise<Buffer> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(bytes);
+    const { bytesRead } = await handle.read(buffer, 0, bytes, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+function isBinaryContent(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, BINARY_SNIFF_BYTES);
+  if (sample.includes(0)) {
+    return true;
+  }
+  // Count control characters other than common whitespace; text rarely has many
+  let suspicious = 0;
+  for (const byte of sample) {
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x0c) {
+      suspicious++;
+    }
+  }
+  return sample.length > 0 && suspicious / sample.length > 0.1;
+}
+
+function detectMimeType(buffer: Buffer, filePath: string): string {
+  const signature = MAGIC_SIGNATURES.find((candidate) =>
+    matchesSignature(buffer, candidate, filePath)
+  );
+  if (signature) {
+    return signature.mime;
+  }
+  const byExtension = EXTENSION_MIME_TYPES[path.extname(filePath).toLowerCase()];
+  if (byExtension) {
+    return byExtension;
+  }
+  return isBinaryContent(buffer) ? 'application/octet-stream' : 'text/plain';
+}
+
+// Text encoding and line ending handling
+type TextEncoding = (typeof TEXT_ENCODINGS)[number];
+
+interface TextFormat {
+  encoding: TextEncoding;
+  bom: boolean;
+  newline: '\n' | '\r\n';
+  trailingNewline: boolean;
+  // Lines of a file with mixed line endings, each with its own ending, so that the lines
+  // an edit leaves alone can be written back unchanged
+  mixedLines?: string[];
+}
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+const UTF16LE_BOM = Buffer.from([0xff, 0xfe]);
+
+function detectEncoding(
+  buffer: Buffer,
+  requested?: TextEncoding
+): { encoding: TextEncoding; bom: boolean } {
+  if (
+    (requested === undefined || requested === 'utf-16le') &&
+    buffer.subarray(0, 2).equals(UTF16LE_BOM)
+  ) {
+    return { encoding: 'utf-16le', bom: true };
+  }
+  const encoding = requested ?? 'utf-8';
+  return { encoding, bom: encoding === 'utf-8' && buffer.subarray(0, 3).equals(UTF8_BOM) };
+}
+
+function detectNewlines(text: string): Pick<TextFormat, 'newline' | 'mixedLines'> {
+  const crlf = text.match(/\r\n/g)?.length ?? 0;
+  const lf = (text.match(/\n/g)?.length ?? 0) - crlf;
+  if (crlf > 0 && lf > 0) {
+    return { newline: '\n', mixedLines: text.split(/(?<=\n)/) };
+  }
+  return { newline: crlf > 0 ? '\r\n' : '\n' };
+}
+
+// Decode file content as text, refusing to decode binary data
+function decodeTextContent(
+  filePath: string,
+  buffer: Buffer,
+  requestedEncoding?: TextEncoding
+): { text: string; format: TextFormat } {
+  const { encoding, bom } = detectEncoding(buffer, requestedEncoding);
+  // UTF-16 text is full of NUL bytes, so only byte-oriented encodings are sniffed
+  if (encoding !== 'utf-16le' && isBinaryContent(buffer)) {
+    const mimeType = detectMimeType(buffer, filePath);
+    throw new Error(
+      `${filePath} appears to be a binary file (${mimeType}, ${buffer.length} bytes). ` +
+        'Use read_media_file to read it.'
+    );
+  }
+  const body = bom ? buffer.subarray(encoding === 'utf-16le' ? 2 : 3) : buffer;
+  const text =
+    encoding === 'utf-8'
+      ? body.toString('utf-8')
+      : iconv.decode(body, encoding, { stripBOM: false });
+  return {
+    text,
+    format: { encoding, bom, ...detectNewlines(text), trailingNewline: text.endsWith('\n') },
+  };
+}
+
+function decodeTextBuffer(filePath: string, buffer: Buffer, encoding?: TextEncoding): string {
+  return decodeTextContent(filePath, buffer, encoding).text;
+}
+
+async function readTextFile(filePath: string, encoding?: TextEncoding): Promise<string> {
+  return decodeTextBuffer(filePath, await fs.readFile(filePath), encoding);
+}
+
+function encodeTextContent(text: string, encoding: TextEncoding, bom: boolean): Buffer {
+  const body =
+    encoding === 'utf-8'
+      ? Buffer.from(text, 'utf-8')
+      : iconv.encode(text, encoding, { addBOM: false });
+  if (bom && encoding === 'utf-8') {
+    return Buffer.concat([UTF8_BOM, body]);
+  }
+  if (bom && encoding === 'utf-16le') {
+    return Buffer.concat([UTF16LE_BOM, body]);
+  }
+  return body;
+}
+
+// Convert LF-only text back to the newline style and final newline state of the original
+function restoreTextFormat(text: string, format: TextFormat): string {
+  let result = text;
+  if (format.trailingNewline && !result.endsWith('\n')) {
+    result += '\n';
+  } else if (!format.trailingNewline && result.endsWith('\n')) {
+    result = result.slice(0, -1);
+  }
+  if (format.mixedLines) {
+    return restoreMixedNewlines(result, format.mixedLines);
+  }
+  return format.newline === '\r\n' ? result.replace(/\n/g, '\r\n') : result;
+}
+
+// Give unchanged lines back their original ending; added and edited lines keep LF
+function restoreMixedNewlines(text: string, originalLines: string[]): string {
+  const normalizedLines = originalLines.map((line) => normalizeLineEndings(line));
+  let originalIndex = 0;
+  let result = '';
+  for (const part of diffArrays(normalizedLines, text.split(/(?<=\n)/))) {
+    if (part.added) {
+      result += part.value.join('');
+    } else {
+      if (!part.removed) {
+        result += originalLines.slice(originalIndex, originalIndex + part.value.length).join('');
+      }
+      originalIndex += part.value.length;
+    }
+  }
+  return result;
+}
+
+function formatHexDump(buffer: Buffer): string {
+  const rows: string[] = [];
+  for (let offset = 0; offset < buffer.length; offset += 16) {
+    const chunk = buffer.subarray(offset, offset + 16);
+    const hex = Array.from(chunk, (byte) => byte.toString(16).padStart(2, '0')).join(' ');
+    const ascii = Array.from(chunk, (byte) =>
+      byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.'
+    ).join('');
+    rows.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  |${ascii}|`);
+  }
+  return rows.join('\n');
+}
+
+// head holds the leading bytes of the file, size its full length
+function formatBinarySummary(
+  filePath: string,
+  head: Buffer,
+  size: number,
+  mimeType: string,
+  encoding: 'hex' | 'base64',
+  previewBytes: number
+): string {
+  const preview = head.subarray(0, previewBytes);
+  const lines = [filePath, `MIME type: ${mimeType}`, `Size: ${size} bytes`];
+  if (preview.length > 0) {
+    lines.push(
+      `First ${preview.length} bytes (${encoding}):`,
+      encoding === 'hex' ? formatHexDump(preview) : preview.toString('base64')
+    );
+  }
+  return lines.join('\n');
+}
+
+// Detailed file information
+const CONTENT_CHUNK_BYTES = 64 * 1024;
+
+interface ContentDetails {
+  mimeType: string;
+  contentType: 'text' | 'binary';
+  lineCount?: number;
+  sha256?: string;
+}
+
+interface DetailedFileInfo extends FileInfo, Partial<ContentDetails> {
+  isSymbolicLink: boolean;
+  symlinkTarget?: string;
+  uid: number;
+  gid: number;
+}
+
+// Read the file once in chunks, sniffing its head and counting newlines along the way
+async function inspectFileContent(
+  filePath: string,
+  includeSha256: boolean
+): Promise<ContentDetails> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const hash = includeSha256 ? createHash('sha256') : null;
+    const chunk = Buffer.alloc(CONTENT_CHUNK_BYTES);
+    let head: Buffer | null = null;
+    let utf16 = false;
+    let size = 0;
+    let newlines = 0;
+    let endsWithNewline = false;
+
+    for (;;) {
+      const { bytesRead } = await handle.read(chunk, 0, chunk.length, size);
+      if (bytesRead === 0) {
+        break;
+      }
+      const data = chunk.subarray(0, bytesRead);
+      if (head === null) {
+        head = Buffer.from(data.subarray(0, BINARY_SNIFF_BYTES));
+        utf16 = detectEncoding(head).encoding === 'utf-16le';
+      }
+      hash?.update(data);
+      // Chunks start at even offsets, so UTF-16 code units never straddle two chunks
+      for (let index = data.indexOf(0x0a); index !== -1; index = data.indexOf(0x0a, index + 1)) {
+        if (!utf16 || (index % 2 === 0 && data[index + 1] === 0)) {
+          newlines++;
+        }
+      }
+      endsWithNewline = utf16
+        ? data[bytesRead - 2] === 0x0a && data[bytesRead - 1] === 0
+        : data[bytesRead - 1] === 0x0a;
+      size += bytesRead;
+    }
+
+    head ??= Buffer.alloc(0);
+    const binary = !utf16 && isBinaryContent(head);
+    return {
+      mimeType: detectMimeType(head, filePath),
+      contentType: binary ? 'binary' : 'text',
+      ...(!binary && { lineCount: newlines + (size > 0 && !endsWithNewline ? 1 : 0) }),
+      ...(hash && { sha256: hash.digest('hex') }),
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+// requestedPath is checked for being a symlink, validPath (its resolved target) for the rest
+async function getDetailedFileInfo(
+  requestedPath: string,
+  validPath: string,
+  includeSha256: boolean
+): Promise<DetailedFileInfo> {
+  const linkPath = path.resolve(expandHome(requestedPath));
+  const [info, stats, linkStats] = await Promise.all([
+    getFileStats(validPath),
+    fs.stat(validPath),
+    fs.lstat(linkPath),
+  ]);
+  return {
+    ...info,
+    isSymbolicLink: linkStats.isSymbolicLink(),
+    ...(linkStats.isSymbolicLink() && { symlinkTarget: await fs.readlink(linkPath) }),
+    uid: stats.uid,
+    gid: stats.gid,
+    ...(info.isFile && (await inspectFileContent(validPath, includeSha256))),
+  };
+}
+
+function formatFileInfo(info: DetailedFileInfo): string {
+  return Object.entries(info)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join('\n');
+}
+
+// Partial text reading utilities
+interface TextReadOptions {
+  offset?: number;
+  limit?: number;
+  maxBytes?: number;
+  lineNumbers?: boolean;
+  // Encoding of the file, which byte counts and maxBytes are measured in (default: UTF-8)
+  encoding?: TextEncoding;
+}
+
+interface TextReadResult {
+  text: string;
+  startLine: number;
+  endLine: number;
+  totalLines: number;
+  bytes: number;
+  truncated: boolean;
+}
+
+function encodedByteLength(text: string, encoding: TextEncoding): number {
+  return encoding === 'utf-8'
+    ? Buffer.byteLength(text, 'utf-8')
+    : iconv.encode(text, encoding).length;
+}
+
+// Cut a string to at most maxBytes in the given encoding without splitting a character
+function truncateToBytes(text: string, maxBytes: number, encoding: TextEncoding): string {
+  if (encoding !== 'utf-8') {
+    let result = '';
+    let bytes = 0;
+    for (const char of text) {
+      bytes += encodedByteLength(char, encoding);
+      if (bytes > maxBytes) {
+        break;
+      }
+      result += char;
+    }
+    return result;
+  }
+  const buffer = Buffer.from(text, 'utf-8');
+  if (buffer.length <= maxBytes) {
+    return text;
+  }
+  let end = maxBytes;
+  while (end > 0 && ((buffer[end] ?? 0) & 0xc0) === 0x80) {
+    end--;
+  }
+  return buffer.subarray(0, end).toString('utf-8');
+}
+
+function sliceTextContent(content: string, options: TextReadOptions = {}): TextReadResult {
+  // Keep the line terminators so the selected range is returned byte-for-byte
+  const lines = content.length > 0 ? content.split(/(?<=\n)/) : [];
+  const totalLines = lines.length;
+  const startIndex = Math.min((options.offset ?? 1) - 1, totalLines);
+  const endIndex =
+    options.limit !== undefined ? Math.min(startIndex + options.limit, totalLines) : totalLines;
+  const width = String(endIndex).length;
+  const encoding = options.encoding ?? 'utf-8';
+
+  let text = '';
+  let bytes = 0;
+  let lastIndex = startIndex;
+  let truncated = endIndex < totalLines || startIndex > 0;
+
+  for (let i = startIndex; i < endIndex; i++) {
+    const line = options.lineNumbers
+      ? `${String(i + 1).padStart(width)}\t${lines[i]}`
+      : (lines[i] ?? '');
+    const lineBytes = encodedByteLength(line, encoding);
+
+    if (options.maxBytes !== undefined && bytes + lineBytes > options.maxBytes) {
+      // Always return something: a single oversized first line is cut mid-line
+      if (i === startIndex) {
+        text = truncateToBytes(line, options.maxBytes, encoding);
+        bytes = encodedByteLength(text, encoding);
+        lastIndex = i + 1;
+      }
+      truncated = true;
+      break;
+    }
+
+    text += line;
+    bytes += lineBytes;
+    lastIndex = i + 1;
+  }
+
+  return {
+    text,
+    startLine: lastIndex > startIndex ? startIndex + 1 : 0,
+    endLine: lastIndex,
+    totalLines,
+    bytes,
+    truncated,
+  };
+}
+
+function formatReadFooter(result: TextReadResult, version?: FileVersion): string {
+  const range = result.endLine > 0 ? `lines ${result.startLine}-${result.endLine}` : 'no lines';
+  const versionInfo = version ? `, sha256: ${version.sha256}, mtime: ${version.mtime}` : '';
+  return (
+    `[${range} of ${result.totalLines} total, ${result.bytes} bytes returned, ` +
+    `truncated: ${result.truncated ? 'yes' : 'no'}${versionInfo}]`
+  );
+}
+
+function formatPartialRead(result: TextReadResult, version?: FileVersion): string {
+  const separator = result.text === '' || result.text.endsWith('\n') ? '' : '\n';
+  return `${result.text}${separator}\n${formatReadFooter(result, version)}`;
+}
+
+// Atomic writes and optimistic concurrency checks
+interface FileVersion {
+  sha256: string;
+  mtime: string;
+}
+
+interface WritePreconditions {
+  expectedSha256?: string;
+  expectedMtime?: string;
+}
+
+function sha256(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+async function fileSha256(filePath: string): Promise<string | null> {
+  try {
+    return sha256(await fs.readFile(filePath));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function getFileVersion(filePath: string, content?: Buffer): Promise<FileVersion> {
+  const stats = await fs.stat(filePath);
+  return {
+    sha256: sha256(content ?? (await fs.readFile(filePath))),
+    mtime: stats.mtime.toISOString(),
+  };
+}
+
+// Reject a write when the file no longer matches the version the caller last read
+async function checkWritePreconditions(
+  filePath: string,
+  preconditions: WritePreconditions
+): Promise<void> {
+  const { expectedSha256, expectedMtime } = preconditions;
+  if (expectedSha256 === undefined && expectedMtime === undefined) {
+    return;
+  }
+  let version: FileVersion;
+  try {
+    version = await getFileVersion(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`${filePath} no longer exists; it was removed since it was read`);
+    }
+    throw error;
+  }
+  if (expectedSha256 !== undefined && version.sha256 !== expectedSha256.toLowerCase()) {
+    throw new Error(
+      `${filePath} has changed since it was read (expected sha256 ${expectedSha256}, ` +
+        `found ${version.sha256}). Read the file again before writing.`
+    );
+  }
+  if (expectedMtime !== undefined && Date.parse(version.mtime) !== Date.parse(expectedMtime)) {
+    throw new Error(
+      `${filePath} has changed since it was read (expected mtime ${expectedMtime}, ` +
+        `found ${version.mtime}). Read the file again before writing.`
+    );
+  }
+}
+
+// Write through a temporary file in the same directory and rename it into place,
+// so a crash never leaves a truncated file behind
+async function writeFileAtomic(filePath: string, data: string | Buffer): Promise<void> {
+  const tempPath = path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${randomBytes(6).toString('hex')}.tmp`
+  );
+  let mode: number | undefined;
+  try {
+    mode = (await fs.stat(filePath)).mode & 0o7777;
+  } catch {
+    // New file: use the default mode
+  }
+  try {
+    const handle = await fs.open(tempPath, 'wx', mode);
+    try {
+      await handle.writeFile(data);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    if (mode !== undefined) {
+      await fs.chmod(tempPath, mode);
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+// Change journal
+// Every mutation records the prior state of the paths it touched so it can be undone.
+// The journal lives outside the allowed directories and is pruned to a bounded size.
+const stateDirectory = path.resolve(
+  expandHome(process.env.MCP_FILESYSTEM_STATE_DIR ?? path.join(os.homedir(), '.mcp-filesystem'))
+);
+const journalDirectory = path.join(stateDirectory, 'journal');
+const journalIndexPath = path.join(journalDirectory, 'index.json');
+const MAX_JOURNAL_ENTRIES = 200;
+const MAX_JOURNAL_BLOB_BYTES = 100 * 1024 * 1024;
+const MAX_SNAPSHOT_BYTES = 10 * 1024 * 1024;
+
+interface FileSnapshot {
+  blob: string | null; // null when the file was too large to keep
+  size: number;
+  mode: number;
+  mtimeMs: number;
+}
+
+type JournalOperation =
+  | { type: 'file'; path: string; before: FileSnapshot | null; afterSha256: string | null }
+  | { type: 'move'; source: string; destination: string }
+  | { type: 'mkdir'; paths: string[] }
+  | { type: 'trash'; path: string; trashId: string };
+
+interface JournalEntry {
+  id: number;
+  tool: string;
+  timestamp: string;
+  operations: JournalOperation[];
+  undone: boolean;
+}
+
+interface Journal {
+  nextId: number;
+  changes: JournalEntry[];
+}
+
+// Prior state of a file captured before a mutation, kept in memory until it is journaled
+interface PendingFileChange {
+  type: 'file';
+  path: string;
+  before: { content: Buffer | null; size: number; mode: number; mtimeMs: number } | null;
+}
+
+type PendingOperation = PendingFileChange | Exclude<JournalOperation, { type: 'file' }>;
+
+async function captureFileState(filePath: string): Promise<PendingFileChange> {
+  try {
+    const stats = await fs.stat(filePath);
+    if (!stats.isFile()) {
+      return { type: 'file', path: filePath, before: null };
+    }
+    const content = stats.size <= MAX_SNAPSHOT_BYTES ? await fs.readFile(filePath) : null;
+    return {
+      type: 'file',
+      path: filePath,
+      before: { content, size: stats.size, mode: stats.mode, mtimeMs: stats.mtimeMs },
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { type: 'file', path: filePath, before: null };
+    }
+    throw error;
+  }
+}
+
+const LOCK_RETRY_MS = 25;
+const LOCK_TIMEOUT_MS = 10_000;
+// A lock held this long belongs to a process that hung or died without cleaning up
+const STALE_LOCK_MS = 60_000;
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+async function isStaleLock(lockPath: string): Promise<boolean> {
+  try {
+    const [content, stats] = await Promise.all([
+      fs.readFile(lockPath, 'utf-8'),
+      fs.stat(lockPath),
+    ]);
+    const pid = Number.parseInt(content, 10);
+    return (
+      Date.now() - stats.mtimeMs > STALE_LOCK_MS || (Number.isInteger(pid) && !isProcessAlive(pid))
+    );
+  } catch {
+    // Removed by its owner in the meantime, or still being written
+    return false;
+  }
+}
+
+// Take a lock file created with O_EXCL, which also excludes other server processes
+async function acquireLockFile(lockPath: string): Promise<void> {
+  await fs.mkdir(path.dirname(lockPath), { recursive: true });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.writeFile(String(process.pid));
+      await handle.close();
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+    if (await isStaleLock(lockPath)) {
+      await fs.rm(lockPath, { force: true });
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+}
+
+// Serialize updates of an on-disk index so concurrent tool calls cannot clobber it. Calls
+// within this process queue up; other server processes sharing the state directory are
+// kept out by the lock file.
+function createLock(lockPath: string): <T>(task: () => Promise<T>) => Promise<T> {
+  let tail: Promise<unknown> = Promise.resolve();
+  const locked = async <T>(task: () => Promise<T>): Promise<T> => {
+    await acquireLockFile(lockPath);
+    try {
+      return await task();
+    } finally {
+      await fs.rm(lockPath, { force: true });
+    }
+  };
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const run = tail.then(
+      () => locked(task),
+      () => locked(task)
+    );
+    tail = run.catch(() => undefined);
+    return run;
+  };
+}
+
+const withJournalLock = createLock(path.join(journalDirectory, 'index.lock'));
+
+async function loadJournal(): Promise<Journal> {
+  try {
+    return JSON.parse(await fs.readFile(journalIndexPath, 'utf-8')) as Journal;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { nextId: 1, changes: [] };
+    }
+    throw error;
+  }
+}
+
+async function saveJournal(journal: Journal): Promise<void> {
+  await fs.mkdir(journalDirectory, { recursive: true });
+  const tempPath = `${journalIndexPath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(journal, null, 2), 'utf-8');
+  await fs.rename(tempPath, journalIndexPath);
+}
+
+function journalBlobBytes(entry: JournalEntry): number {
+  return entry.operations.reduce(
+    (total, op) => total + (op.type === 'file' && op.before?.blob ? op.before.size : 0),
+    0
+  );
+}
+
+async function pruneJournal(journal: Journal): Promise<void> {
+  let totalBytes = journal.changes.reduce((total, entry) => total + journalBlobBytes(entry), 0);
+  while (
+    journal.changes.length > MAX_JOURNAL_ENTRIES ||
+    (totalBytes > MAX_JOURNAL_BLOB_BYTES && journal.changes.length > 1)
+  ) {
+    const oldest = journal.changes.shift()!;
+    totalBytes -= journalBlobBytes(oldest);
+    for (const op of oldest.operations) {
+      if (op.type === 'file' && op.before?.blob) {
+        await fs.rm(path.join(journalDirectory, op.before.blob), { force: true });
+      }
+    }
+  }
+}
+
+// Record a completed mutation. Failures are logged rather than thrown because the
+// change itself has already been made.
+async function recordChange(tool: string, operations: PendingOperation[]): Promise<void> {
+  try {
+    await withJournalLock(async () => {
+      const journal = await loadJournal();
+      const id = journal.nextId++;
+      const recorded: JournalOperation[] = [];
+
+      for (const [index, op] of operations.entries()) {
+        if (op.type !== 'file') {
+          recorded.push(op);
+          continue;
+        }
+        let before: FileSnapshot | null = null;
+        if (op.before) {
+          let blob: string | null = null;
+          if (op.before.content) {
+            blob = `${id}-${index}`;
+            await fs.mkdir(journalDirectory, { recursive: true });
+            await fs.writeFile(path.join(journalDirectory, blob), op.before.content);
+          }
+          before = { blob, size: op.before.size, mode: op.before.mode, mtimeMs: op.before.mtimeMs };
+        }
+        recorded.push({
+          type: 'file',
+          path: op.path,
+          before,
+          afterSha256: await fileSha256(op.path),
+        });
+      }
+
+      journal.changes.push({
+        id,
+        tool,
+        timestamp: new Date().toISOString(),
+        operations: recorded,
+        undone: false,
+      });
+      await pruneJournal(journal);
+      await saveJournal(journal);
+    });
+  } catch (error) {
+    console.error(`Failed to record ${tool} in the change journal:`, error);
+  }
+}
+
+// mkdir -p that returns the directories it created, parents before children, for the journal
+async function createDirectories(dirPath: string): Promise<string[]> {
+  const firstCreated = await fs.mkdir(dirPath, { recursive: true });
+  const created: string[] = [];
+  if (firstCreated !== undefined) {
+    for (let dir = dirPath; dir !== path.dirname(firstCreated); dir = path.dirname(dir)) {
+      created.unshift(dir);
+    }
+  }
+  return created;
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.lstat(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Refuse to undo when the disk no longer matches the state the change left behind.
+// removedPaths holds the files that reverting the other operations of the change deletes.
+async function verifyUndoable(op: JournalOperation, removedPaths: Set<string>): Promise<void> {
+  switch (op.type) {
+  case 'file': {
+    assertWritable(await validatePath(op.path));
+    if ((await fileSha256(op.path)) !== op.afterSha256) {
+      throw new Error(`${op.path} has changed since this change was recorded`);
+    }
+    if (op.before && op.before.blob === null) {
+      throw new Error(`Prior content of ${op.path} was too large to keep in the journal`);
+    }
+    break;
+  }
+  case 'move': {
+    assertWritable(await validatePath(op.source));
+    assertWritable(await validatePath(op.destination));
+    if (!(await pathExists(op.destination)) || (await pathExists(op.source))) {
+      throw new Error(
+        `${op.destination} has been moved or ${op.source} recreated since the move`
+      );
+    }
+    break;
+  }
+  case 'mkdir': {
+    const createdPaths = new Set(op.paths);
+    for (const dirPath of op.paths) {
+      assertWritable(await validatePath(dirPath));
+      // Only entries created by the same change may remain, as undoing it removes them first
+      const entries = await fs.readdir(dirPath).catch(() => null);
+      const unexpected = entries?.filter((name) => {
+        const entryPath = path.join(dirPath, name);
+        return !createdPaths.has(entryPath) && !removedPaths.has(entryPath);
+      });
+      if (!unexpected || unexpected.length > 0) {
+        throw new Error(`${dirPath} no longer exists or is not empty`);
+      }
+    }
+    break;
+  }
+  case 'trash': {
+    assertWritable(await validateCreatablePath(op.path));
+    if (await pathExists(op.path)) {
+      throw new Error(`${op.path} has been recreated since it was deleted`);
+    }
+    if (!(await findTrashItem(op.trashId))) {
+      throw new Error(`${op.path} is no longer in the trash`);
+    }
+    break;
+  }
+  }
+}
+
+async function revertOperation(op: JournalOperation): Promise<void> {
+  switch (op.type) {
+  case 'file': {
+    if (!op.before) {
+      await fs.rm(op.path, { force: true });
+      break;
+    }
+    const content = await fs.readFile(path.join(journalDirectory, op.before.blob!));
+    await fs.mkdir(path.dirname(op.path), { recursive: true });
+    await writeFileAtomic(op.path, content);
+    await fs.chmod(op.path, op.before.mode & 0o7777);
+    const mtime = new Date(op.before.mtimeMs);
+    await fs.utimes(op.path, mtime, mtime);
+    break;
+  }
+  case 'move': {
+    await fs.mkdir(path.dirname(op.source), { recursive: true });
+    await fs.rename(op.destination, op.source);
+    break;
+  }
+  case 'mkdir': {
+    // Directories are recorded outermost first, so remove them innermost first
+    for (const dirPath of [...op.paths].reverse()) {
+      await fs.rmdir(dirPath);
+    }
+    break;
+  }
+  case 'trash': {
+    await restoreTrashItem(op.trashId);
+    break;
+  }
+  }
+}
+
+async function undoJournalEntry(entry: JournalEntry): Promise<void> {
+  if (entry.undone) {
+    throw new Error(`Change #${entry.id} has already been undone`);
+  }
+  const removedPaths = new Set(
+    entry.operations.flatMap((op) => (op.type === 'file' && !op.before ? [op.path] : []))
+  );
+  for (const op of entry.operations) {
+    await verifyUndoable(op, removedPaths);
+  }
+  for (const op of [...entry.operations].reverse()) {
+    await revertOperation(op);
+  }
+  entry.undone = true;
+}
+
+function describeJournalOperation(op: JournalOperation): string {
+  switch (op.type) {
+  case 'file': {
+    const action = !op.before ? 'created' : op.afterSha256 === null ? 'deleted' : 'modified';
+    return `${action} ${op.path}`;
+  }
+  case 'move':
+    return `moved ${op.source} -> ${op.destination}`;
+  case 'mkdir':
+    return op.paths.length === 1
+      ? `created directory ${op.paths[0]}`
+      : `created directories ${op.paths.join(', ')}`;
+  case 'trash':
+    return `moved ${op.path} to the trash`;
+  }
+}
+
+function formatJournalEntry(entry: JournalEntry): string {
+  const header = `#${entry.id} ${entry.timestamp} ${entry.tool}${entry.undone ? ' [undone]' : ''}`;
+  return [header, ...entry.operations.map((op) => `  ${describeJournalOperation(op)}`)].join(
+    '\n'
+  );
+}
+
+// Trash
+// Deleted paths are moved into a server-local trash directory so they can be restored.
+const trashDirectory = path.join(stateDirectory, 'trash');
+const trashIndexPath = path.join(trashDirectory, 'index.json');
+const MAX_TRASH_ITEMS = 100;
+
+interface TrashItem {
+  id: string;
+  originalPath: string;
+  type: 'file' | 'directory';
+  deletedAt: string;
+}
+
+const withTrashLock = createLock(path.join(trashDirectory, 'index.lock'));
+
+async function loadTrashIndex(): Promise<TrashItem[]> {
+  try {
+    return JSON.parse(await fs.readFile(trashIndexPath, 'utf-8')) as TrashItem[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function saveTrashIndex(items: TrashItem[]): Promise<void> {
+  await fs.mkdir(trashDirectory, { recursive: true });
+  const tempPath = `${trashIndexPath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(items, null, 2), 'utf-8');
+  await fs.rename(tempPath, trashIndexPath);
+}
+
+// rename() cannot cross file systems, so fall back to copy and remove
+async function movePathAcrossDevices(source: string, destination: string): Promise<void> {
+  try {
+    await fs.rename(source, destination);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+    await fs.cp(source, destination, { recursive: true, preserveTimestamps: true });
+    await fs.rm(source, { recursive: true, force: true });
+  }
+}
+
+function trashItemPath(item: TrashItem): string {
+  return path.join(trashDirectory, item.id, path.basename(item.originalPath));
+}
+
+async function findTrashItem(id: string): Promise<TrashItem | undefined> {
+  return (await withTrashLock(loadTrashIndex)).find((item) => item.id === id);
+}
+
+async function moveToTrash(filePath: string): Promise<TrashItem> {
+  const stats = await fs.lstat(filePath);
+  const item: TrashItem = {
+    id: `${Date.now()}-${randomBytes(4).toString('hex')}`,
+    originalPath: filePath,
+    type: stats.isDirectory() ? 'directory' : 'file',
+    deletedAt: new Date().toISOString(),
+  };
+  await withTrashLock(async () => {
+    const items = await loadTrashIndex();
+    await fs.mkdir(path.join(trashDirectory, item.id), { recursive: true });
+    await movePathAcrossDevices(filePath, trashItemPath(item));
+    items.push(item);
+    // Permanently remove the oldest items once the trash is full
+    while (items.length > MAX_TRASH_ITEMS) {
+      const oldest = items.shift()!;
+      await fs.rm(path.join(trashDirectory, oldest.id), { recursive: true, force: true });
+    }
+    await saveTrashIndex(items);
+  });
+  return item;
+}
+
+async function restoreTrashItem(id: string, destination?: string): Promise<TrashItem> {
+  return withTrashLock(async () => {
+    const items = await loadTrashIndex();
+    const item = items.find((candidate) => candidate.id === id);
+    if (!item) {
+      throw new Error(`Trash item ${id} not found`);
+    }
+    const targetPath = await validateCreatablePath(destination ?? item.originalPath);
+    assertWritable(targetPath);
+    if (await pathExists(targetPath)) {
+      throw new Error(`Cannot restore: ${targetPath} already exists`);
+    }
+    await fs.mkdir(path.dirname(targetPath), { recursive: true });
+    await movePathAcrossDevices(trashItemPath(item), targetPath);
+    await fs.rm(path.join(trashDirectory, item.id), { recursive: true, force: true });
+    await saveTrashIndex(items.filter((candidate) => candidate.id !== id));
+    return { ...item, originalPath: targetPath };
+  });
+}
+
+// Copy utilities
+type OverwritePolicy = 'error' | 'overwrite' | 'skip';
+
+interface CopyStats {
+  files: number;
+  directories: number;
+  skipped: string[];
+  // Created directories, parents before children, journaled as a single operation
+  createdDirectories: string[];
+  operations: PendingOperation[];
+}
+
+// Find a destination file that a copy would overwrite, so conflicts fail before copying
+async function findCopyConflict(source: string, destination: string): Promise<string | null> {
+  const sourceStats = await fs.lstat(source);
+  if (!sourceStats.isDirectory()) {
+    return (await pathExists(destination)) ? destination : null;
+  }
+  const destinationStats = await fs.lstat(destination).catch(() => null);
+  if (!destinationStats) {
+    return null;
+  }
+  if (!destinationStats.isDirectory()) {
+    return destination;
+  }
+  for (const entry of await fs.readdir(source)) {
+    const conflict = await findCopyConflict(
+      path.join(source, entry),
+      path.join(destination, entry)
+    );
+    if (conflict) {
+      return conflict;
+    }
+  }
+  return null;
+}
+
+async function copyPathRecursive(
+  source: string,
+  destination: string,
+  overwrite: OverwritePolicy,
+  stats: CopyStats
+): Promise<void> {
+  const sourceStats = await fs.lstat(source);
+  // Writing through a symlink in the destination could land outside the allowed directories
+  const destinationStats = await fs.lstat(destination).catch(() => null);
+  if (destinationStats?.isSymbolicLink()) {
+    throw new Error(`Refusing to copy onto symlink ${destination}`);
+  }
+
+  if (sourceStats.isDirectory()) {
+    if (!destinationStats) {
+      await fs.mkdir(destination, { mode: sourceStats.mode & 0o7777 });
+      stats.createdDirectories.push(destination);
+      stats.directories++;
+    }
+    for (const entry of await fs.readdir(source)) {
+      const entrySource = path.join(source, entry);
+      try {
+        // Validate each path before processing; symlinks leaving allowed directories are skipped
+        await validatePath(entrySource);
+      } catch {
+        stats.skipped.push(entrySource);
+        continue;
+      }
+      const entryDestination = path.join(destination, entry);
+      await validatePath(entryDestination);
+      await copyPathRecursive(entrySource, entryDestination, overwrite, stats);
+    }
+    return;
+  }
+
+  if (destinationStats) {
+    if (overwrite === 'skip') {
+      stats.skipped.push(destination);
+      return;
+    }
+    if (overwrite === 'error') {
+      throw new Error(`Destination already exists: ${destination}`);
+    }
+  }
+  const pendingChange = await captureFileState(destination);
+  await fs.copyFile(source, destination);
+  stats.operations.push(pendingChange);
+  stats.files++;
+}
+
+// file editing and diffing utilities
+// Format diff with appropriate number of backticks
+function fenceDiff(diff: string): string {
+  let numBackticks = 3;
+  while (diff.includes('`'.repeat(numBackticks))) {
+    numBackticks++;
+  }
+  return `${'`'.repeat(numBackticks)}diff\n${diff}${'`'.repeat(numBackticks)}\n\n`;
+}
+
+function normalizeLineEndings(text: string): string {
+  return text.replace(/\r\n/g, '\n');
+}
+
+interface UnifiedDiffOptions {
+  // Name of the new file when it differs from the original
+  newFilepath?: string;
+  ignoreWhitespace?: boolean;
+}
+
+function createUnifiedDiff(
+  originalContent: string,
+  newContent: string,
+  filepath: string = 'file',
+  options: UnifiedDiffOptions = {}
+): string {
+  // Ensure consistent line endings for diff
+  const normalizedOriginal = normalizeLineEndings(originalContent);
+  const normalizedNew = normalizeLineEndings(newContent);
+
+  // jsdiff's own ignoreWhitespace only trims lines, so compare lines with all whitespace
+  // removed instead; jsdiff accepts a line comparator that its type definitions omit
+  const patchOptions: PatchOptions & { comparator?: (left: string, right: string) => boolean } =
+    options.ignoreWhitespace
+      ? { comparator: (left, right) => left.replace(/\s+/g, '') === right.replace(/\s+/g, '') }
+      : {};
+
+  return createTwoFilesPatch(
+    filepath,
+    options.newFilepath ?? filepath,
+    normalizedOriginal,
+    normalizedNew,
+    'original',
+    'modified',
+    patchOptions
+  );
+}
+
+type EditOperationInput = z.input<typeof EditOperation>;
+type TextEditInput = z.input<typeof TextEditOperation>;
+type LineEditInput = Exclude<EditOperationInput, TextEditInput>;
+
+type EditMatchStrategy = 'exact' | 'whitespace-normalized';
+
+// A candidate location for an edit, as a character range of the original content
+interface EditCandidate {
+  start: number;
+  end: number;
+  line: number;
+  replacement: string;
+}
+
+function lineNumberAt(content: string, index: number): number {
+  let line = 1;
+  for (let i = content.indexOf('\n'); i !== -1 && i < index; i = content.indexOf('\n', i + 1)) {
+    line++;
+  }
+  return line;
+}
+
+function findExactMatches(content: string, oldText: string, newText: string): EditCandidate[] {
+  const candidates: EditCandidate[] = [];
+  for (
+    let index = content.indexOf(oldText);
+    index !== -1;
+    index = content.indexOf(oldText, index + oldText.length)
+  ) {
+    candidates.push({
+      start: index,
+      end: index + oldText.length,
+      line: lineNumberAt(content, index),
+      replacement: newText,
+    });
+  }
+  return candidates;
+}
+
+// Line-by-line matching with flexibility for whitespace
+function findWhitespaceNormalizedMatches(
+  content: string,
+  oldText: string,
+  newText: string
+): EditCandidate[] {
+  const oldLines = oldText.split('\n');
+  const contentLines = content.split('\n');
+  const lineOffsets: number[] = [];
+  let offset = 0;
+  for (const line of contentLines) {
+    lineOffsets.push(offset);
+    offset += line.length + 1;
+  }
+
+  const candidates: EditCandidate[] = [];
+  for (let i = 0; i <= contentLines.length - oldLines.length; i++) {
+    const isMatch = oldLines.every(
+      (oldLine, j) => oldLine.trim() === (contentLines[i + j] ?? '').trim()
+    );
+    if (!isMatch) {
+      continue;
+    }
+
+    // Preserve original indentation of first line
+    const originalIndent = contentLines[i]?.match(/^\s*/)?.[0] || '';
+    const newLines = newText.split('\n').map((line, j) => {
+      if (j === 0) return originalIndent + line.trimStart();
+      // For subsequent lines, try to preserve relative indentation
+      const oldIndent = oldLines[j]?.match(/^\s*/)?.[0] || '';
+      const newIndent = line.match(/^\s*/)?.[0] || '';
+      if (oldIndent && newIndent) {
+        const relativeIndent = newIndent.length - oldIndent.length;
+        return originalIndent + ' '.repeat(Math.max(0, relativeIndent)) + line.trimStart();
+      }
+      return line;
+    });
+
+    const lastLine = i + oldLines.length - 1;
+    candidates.push({
+      start: lineOffsets[i] ?? 0,
+      end: (lineOffsets[lastLine] ?? 0) + (contentLines[lastLine]?.length ?? 0),
+      line: i + 1,
+      replacement: newLines.join('\n'),
+    });
+    // Candidates never overlap, so continue after the matched block
+    i = lastLine;
+  }
+  return candidates;
+}
+
+function selectEditCandidates(
+  candidates: EditCandidate[],
+  edit: TextEditInput,
+  editNumber: number
+): EditCandidate[] {
+  if (edit.replaceAll && edit.occurrence !== undefined) {
+    throw new Error(`Edit ${editNumber}: 'replaceAll' and 'occurrence' cannot be combined`);
+  }
+  if (edit.replaceAll) {
+    return candidates;
+  }
+  const lines = candidates.map((candidate) => candidate.line).join(', ');
+  if (edit.occurrence !== undefined) {
+    const selected = candidates[edit.occurrence - 1];
+    if (!selected) {
+      throw new Error(
+        `Edit ${editNumber}: occurrence ${edit.occurrence} requested but oldText matches ` +
+          `only ${candidates.length} time(s) (lines ${lines})`
+      );
+    }
+    return [selected];
+  }
+  if (candidates.length > 1) {
+    throw new Error(
+      `Edit ${editNumber}: oldText is ambiguous, it matches ${candidates.length} locations ` +
+        `(lines ${lines}). Add surrounding context to make it unique, set 'occurrence' ` +
+        "to pick one, or set 'replaceAll' to replace every match:\n" +
+        edit.oldText
+    );
+  }
+  return candidates;
+}
+
+// Character offsets at which each line starts; the last entry is the end of the content
+function getLineOffsets(content: string): number[] {
+  const offsets = [0];
+  for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) {
+    offsets.push(i + 1);
+  }
+  if (offsets[offsets.length - 1] !== content.length) {
+    offsets.push(content.length);
+  }
+  return offsets;
+}
+
+function withTrailingNewline(text: string): string {
+  return text === '' || text.endsWith('\n') ? text : `${text}\n`;
+}
+
+function resolveLineEdit(
+  content: string,
+  edit: LineEditInput,
+  editNumber: number
+): { candidate: EditCandidate; description: string } {
+  const offsets = getLineOffsets(content);
+  const lineCount = offsets.length - 1;
+  const endsWithNewline = content === '' || content.endsWith('\n');
+
+  let candidate: EditCandidate;
+  let description: string;
+  let checkedLines: number[];
+  if ('insertAt' in edit) {
+    if (edit.insertAt > lineCount + 1) {
+      throw new Error(
+        `Edit ${editNumber}: cannot insert at line ${edit.insertAt}, the file has ` +
+          `${lineCount} line(s)`
+      );
+    }
+    const newText = normalizeLineEndings(edit.newText);
+    const start = offsets[edit.insertAt - 1]!;
+    // Appending to a file without a final newline has to terminate its last line first
+    const atUnterminatedEnd = edit.insertAt === lineCount + 1 && !endsWithNewline;
+    candidate = {
+      start,
+      end: start,
+      line: edit.insertAt,
+      replacement: atUnterminatedEnd
+        ? `\n${newText.replace(/\n$/, '')}`
+        : withTrailingNewline(newText),
+    };
+    description =
+      edit.insertAt > lineCount
+        ? 'inserted at end of file'
+        : `inserted before line ${edit.insertAt}`;
+    const expectedCount = edit.expectedLines?.replace(/\n$/, '').split('\n').length ?? 0;
+    checkedLines = [edit.insertAt, edit.insertAt + expectedCount - 1];
+  } else {
+    const range = 'replaceLines' in edit ? edit.replaceLines : edit.deleteLines;
+    if (range.end > lineCount) {
+      throw new Error(
+        `Edit ${editNumber}: lines ${range.start}-${range.end} are out of range, the file has ` +
+          `${lineCount} line(s)`
+      );
+    }
+    let start = offsets[range.start - 1]!;
+    const end = offsets[range.end]!;
+    const newText = 'replaceLines' in edit ? normalizeLineEndings(edit.newText) : '';
+    let replacement = withTrailingNewline(newText);
+    if (range.end === lineCount && !endsWithNewline) {
+      if (newText === '' && start > 0) {
+        // Removing the last lines also removes the newline that terminated the line before
+        start--;
+      } else {
+        replacement = newText.replace(/\n$/, '');
+      }
+    }
+    candidate = { start, end, line: range.start, replacement };
+    const lines =
+      range.start === range.end ? `line ${range.start}` : `lines ${range.start}-${range.end}`;
+    description = 'replaceLines' in edit ? `replaced ${lines}` : `deleted ${lines}`;
+    checkedLines = [range.start, range.end];
+  }
+
+  // Guard against drift: the addressed lines must still read as the caller expects
+  if (edit.expectedLines !== undefined) {
+    const [first, last] = checkedLines as [number, number];
+    const actual = content.slice(
+      offsets[first - 1] ?? content.length,
+      offsets[last] ?? content.length
+    );
+    const expected = normalizeLineEndings(edit.expectedLines);
+    if (actual.replace(/\n$/, '') !== expected.replace(/\n$/, '')) {
+      throw new Error(
+        `Edit ${editNumber}: lines ${first}-${last} do not match expectedLines, the file may ` +
+          `have changed. Current content:\n${actual}`
+      );
+    }
+  }
+  return { candidate, description };
+}
+
+async function applyFileEdits(
+  filePath: string,
+  edits: EditOperationInput[],
+  dryRun = false,
+  encoding?: TextEncoding
+): Promise<string> {
+  // Read file content and normalize line endings, remembering the original format
+  const decoded = decodeTextContent(filePath, await fs.readFile(filePath), encoding);
+  const content = normalizeLineEndings(decoded.text);
+
+  // Line edits are located in the original content, so their line numbers refer to the file
+  // as it was before the batch, and are applied together first
+  const lineEdits: { editNumber: number; candidate: EditCandidate }[] = [];
+  const summary: string[] = [];
+  for (const [index, edit] of edits.entries()) {
+    if (!('oldText' in edit)) {
+      const editNumber = index + 1;
+      const { candidate, description } = resolveLineEdit(content, edit, editNumber);
+      lineEdits.push({ editNumber, candidate });
+      summary[index] = `Edit ${editNumber}: ${description}`;
+    }
+  }
+
+  // Line edits must not overlap. At the same position insertions go before replacements, and
+  // insertions keep their order in the batch.
+  lineEdits.sort(
+    (a, b) =>
+      a.candidate.start - b.candidate.start ||
+      a.candidate.end - b.candidate.end ||
+      a.editNumber - b.editNumber
+  );
+  for (let i = 1; i < lineEdits.length; i++) {
+    const previous = lineEdits[i - 1]!;
+    const current = lineEdits[i]!;
+    if (current.candidate.start < previous.candidate.end) {
+      throw new Error(
+        `Edit ${previous.editNumber} and edit ${current.editNumber} overlap ` +
+          `(line ${previous.candidate.line} and line ${current.candidate.line})`
+      );
+    }
+  }
+
+  // Replace from the end so earlier offsets stay valid
   let modifiedContent = content;
-  for (const edit of edits) {
+  const applyCandidates = (candidates: EditCandidate[]) => {
+    for (const candidate of [...candidates].reverse()) {
+      modifiedContent =
+        modifiedContent.slice(0, candidate.start) +
+        candidate.replacement +
+        modifiedContent.slice(candidate.end);
+    }
+  };
+  applyCandidates(lineEdits.map(({ candidate }) => candidate));
+
+  // Text edits are then applied sequentially, each matching the content left by the
+  // edits before it
+  for (const [index, edit] of edits.entries()) {
+    if (!('oldText' in edit)) {
+      continue;
+    }
+    const editNumber = index + 1;
     const normalizedOld = normalizeLineEndings(edit.oldText);
     const normalizedNew = normalizeLineEndings(edit.newText);
+    if (normalizedOld === '') {
+      throw new Error(`Edit ${editNumber}: oldText must not be empty`);
+    }
+
+    // Prefer exact matches; fall back to whitespace-tolerant line matching
+    let strategy: EditMatchStrategy = 'exact';
+    let candidates = findExactMatches(modifiedContent, normalizedOld, normalizedNew);
+    if (candidates.length === 0) {
+      strategy = 'whitespace-normalized';
+      candidates = findWhitespaceNormalizedMatches(modifiedContent, normalizedOld, normalizedNew);
+    }
+    if (candidates.length === 0) {
+      throw new Error(`Could not find exact match for edit:\n${edit.oldText}`);
+    }
+
+    const selected = selectEditCandidates(candidates, edit, editNumber);
+    applyCandidates(selected);
+
+    const lines = selected.map((candidate) => candidate.line).join(', ');
+    summary[index] =
+      `Edit ${editNumber}: ${strategy} match at line${selected.length > 1 ? 's' : ''} ${lines}`;
+  }
+
+  // Create unified diff
+  const diff = createUnifiedDiff(content, modifiedContent, filePath);
+
+  const formattedDiff = fenceDiff(diff);
+
+  if (!dryRun) {
+    const restored = restoreTextFormat(modifiedContent, decoded.format);
+    await writeFileAtomic(
+      filePath,
+      encodeTextContent(restored, decoded.format.encoding, decoded.format.bom)
+    );
+  }
+
+  return `${summary.join('\n')}\n\n${formattedDiff}`;
+}
+
+// Structured editing of JSON, YAML and TOML files
+// Each format is edited through a library that keeps the formatting and comments of the
+// parts of the document that are not touched.
+type StructuredFormat = 'json' | 'yaml' | 'toml';
+type StructuredEditOperationInput = z.infer<typeof StructuredEditOperation>;
+type KeyPath = (string | number)[];
+
+const STRUCTURED_FORMATS: Record<string, StructuredFormat> = {
+  '.json': 'json',
+  '.jsonc': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.toml': 'toml',
+};
+
+interface StructuredDocument {
+  // The current content as plain data, used to resolve paths
+  data(): unknown;
+  set(keyPath: KeyPath, value: unknown): void;
+  delete(keyPath: KeyPath): void;
+  append(keyPath: KeyPath, value: unknown): void;
+  toString(): string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// JSON Pointers start with '/'; anything else is a dotted path with optional [index] parts
+function parseKeyPath(keyPath: string): string[] {
+  if (keyPath.startsWith('/')) {
+    return keyPath
+      .slice(1)
+      .split('/')
+      .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+  }
+  return keyPath
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter((segment) => segment !== '');
+}
+
+// Segments addressing an array element become numbers
+function resolveKeyPath(data: unknown, segments: string[]): KeyPath {
+  const resolved: KeyPath = [];
+  let current = data;
+  for (const segment of segments) {
+    if (Array.isArray(current)) {
+      if (!/^\d+$/.test(segment)) {
+        const arrayPath = `/${resolved.join('/')}`;
+        throw new Error(`'${segment}' is not a valid index into the array at ${arrayPath}`);
+      }
+      resolved.push(Number(segment));
+      current = current[Number(segment)];
+    } else {
+      resolved.push(segment);
+      current = isPlainObject(current) ? current[segment] : undefined;
+    }
+  }
+  return resolved;
+}
+
+function getValueAt(data: unknown, keyPath: KeyPath): unknown {
+  let current = data;
+  for (const key of keyPath) {
+    if (Array.isArray(current) && typeof key === 'number') {
+      current = current[key];
+    } else if (isPlainObject(current)) {
+      current = current[String(key)];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+// Intermediate objects are created as needed; used for TOML, which is patched from plain data
+function setValueAt(data: Record<string, unknown>, keyPath: KeyPath, value: unknown): void {
+  let current: unknown = data;
+  for (const [index, key] of keyPath.entries()) {
+    const container = current as Record<string | number, unknown>;
+    if (index === keyPath.length - 1) {
+      container[key] = value;
+      return;
+    }
+    if (container[key] === undefined) {
+      container[key] = {};
+    }
+    current = container[key];
+    if (typeof current !== 'object' || current === null) {
+      throw new Error(`Cannot set a key inside the non-object value at ${keyPath[index]}`);
+    }
+  }
+}
+
+function detectJsonIndentation(text: string): jsonc.FormattingOptions {
+  const indent = /^([ \t]+)\S/m.exec(text)?.[1];
+  if (indent?.startsWith('\t')) {
+    return { insertSpaces: false, tabSize: 1, eol: '\n' };
+  }
+  return { insertSpaces: true, tabSize: indent?.length ?? 2, eol: '\n' };
+}
+
+function getJsonIndentUnit({ insertSpaces, tabSize }: jsonc.FormattingOptions): string {
+  return insertSpaces ? ' '.repeat(tabSize ?? 2) : '\t';
+}
+
+function getLineIndent(text: string, offset: number): string {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+  return /^[ \t]*/.exec(text.slice(lineStart))![0];
+}
+
+// Members of a container are laid out one per line when its first member starts on a new line.
+// Empty containers follow the container around them.
+function isMultilineJsonNode(text: string, node: jsonc.Node): boolean {
+  const first = node.children?.[0];
+  if (first !== undefined) {
+    return text.slice(node.offset, first.offset).includes('\n');
+  }
+  const outer = node.parent?.type === 'property' ? node.parent.parent : node.parent;
+  return outer === undefined || isMultilineJsonNode(text, outer);
+}
+
+function serializeJsonValue(
+  value: unknown,
+  formattingOptions: jsonc.FormattingOptions,
+  indent: string,
+  multiline: boolean
+): string {
+  if (!multiline) {
+    return JSON.stringify(value, null, 1)
+      .replace(/([[{])\n */g, '$1')
+      .replace(/\n *([\]}])/g, '$1')
+      .replace(/\n */g, ' ');
+  }
+  return JSON.stringify(value, null, getJsonIndentUnit(formattingOptions)).replace(
+    /\n/g,
+    `${formattingOptions.eol}${indent}`
+  );
+}
+
+// jsonc.modify with formatting options re-formats every line an edit touches, which expands
+// untouched containers next to it, so the edit is computed here and only the inserted value is
+// serialized. Setting undefined deletes the value; missing containers on the way are created.
+function modifyJsonText(
+  text: string,
+  keyPath: KeyPath,
+  value: unknown,
+  formattingOptions: jsonc.FormattingOptions,
+  isArrayInsertion = false
+): string {
+  const root = jsonc.parseTree(text, [], { allowTrailingComma: true })!;
+  const parentPath = keyPath.slice(0, -1);
+  let key = keyPath[keyPath.length - 1]!;
+  let parent = jsonc.findNodeAtLocation(root, parentPath);
+  while (parent === undefined) {
+    if (value === undefined) {
+      return text;
+    }
+    value = typeof key === 'number' ? [value] : { [key]: value };
+    key = parentPath.pop()!;
+    parent = jsonc.findNodeAtLocation(root, parentPath);
+  }
+  if (parent.type !== (typeof key === 'number' ? 'array' : 'object')) {
+    throw new Error(
+      `Cannot set a key inside the non-object value at ${parentPath[parentPath.length - 1]}`
+    );
+  }
+
+  const members = parent.children!;
+  const index =
+    typeof key === 'number'
+      ? Math.min(key, members.length)
+      : members.findIndex((member) => member.children![0]!.value === key);
+  const existing = index === -1 ? undefined : members[index];
+  const replace = (start: number, end: number, content: string) =>
+    text.slice(0, start) + content + text.slice(end);
+
+  if (value === undefined) {
+    if (existing === undefined) {
+      return text;
+    }
+    if (members.length === 1) {
+      return replace(parent.offset + 1, parent.offset + parent.length - 1, '');
+    }
+    if (index > 0) {
+      const previous = members[index - 1]!;
+      return replace(previous.offset + previous.length, existing.offset + existing.length, '');
+    }
+    return replace(existing.offset, members[1]!.offset, '');
+  }
+
+  const multiline = isMultilineJsonNode(text, parent);
+  if (existing !== undefined && !isArrayInsertion) {
+    const target = typeof key === 'number' ? existing : existing.children![1]!;
+    const serialized = serializeJsonValue(
+      value,
+      formattingOptions,
+      getLineIndent(text, target.offset),
+      multiline
+    );
+    return replace(target.offset, target.offset + target.length, serialized);
+  }
+
+  const parentIndent = getLineIndent(text, parent.offset);
+  const indent =
+    multiline && members.length > 0
+      ? getLineIndent(text, members[0]!.offset)
+      : parentIndent + getJsonIndentUnit(formattingOptions);
+  const serialized = serializeJsonValue(value, formattingOptions, indent, multiline);
+  const member = typeof key === 'number' ? serialized : `${JSON.stringify(key)}: ${serialized}`;
+  const { eol } = formattingOptions;
+  if (members.length === 0) {
+    const content = multiline ? `${eol}${indent}${member}${eol}${parentIndent}` : member;
+    return replace(parent.offset + 1, parent.offset + parent.length - 1, content);
+  }
+  const position = existing === undefined ? members.length : index;
+  if (position > 0) {
+    const previous = members[position - 1]!;
+    const end = previous.offset + previous.length;
+    return replace(end, end, multiline ? `,${eol}${indent}${member}` : `, ${member}`);
+  }
+  const start = members[0]!.offset;
+  return replace(start, start, multiline ? `${member},${eol}${indent}` : `${member}, `);
+}
+
+function openJsonDocument(text: string): StructuredDocument {
+  const errors: jsonc.ParseError[] = [];
+  jsonc.parse(text, errors, { allowTrailingComma: true });
+  if (errors.length > 0) {
+    const { error, offset } = errors[0]!;
+    throw new Error(`Cannot parse JSON: ${jsonc.printParseErrorCode(error)} at offset ${offset}`);
+  }
+  const formattingOptions = detectJsonIndentation(text);
+  const modify = (keyPath: KeyPath, value: unknown, isArrayInsertion = false) => {
+    text = modifyJsonText(text, keyPath, value, formattingOptions, isArrayInsertion);
+  };
+  const data = () => jsonc.parse(text, [], { allowTrailingComma: true });
+  return {
+    data,
+    set: (keyPath, value) => modify(keyPath, value),
+    delete: (keyPath) => modify(keyPath, undefined),
+    append: (keyPath, value) => {
+      const target = getValueAt(data(), keyPath);
+      if (Array.isArray(target)) {
+        modify([...keyPath, target.length], value, true);
+      } else {
+        modify(keyPath, [value]);
+      }
+    },
+    toString: () => text,
+  };
+}
+
+function openYamlDocument(text: string): StructuredDocument {
+  const document = YAML.parseDocument(text);
+  if (document.errors.length > 0) {
+    throw new Error(`Cannot parse YAML: ${document.errors[0]!.message}`);
+  }
+  return {
+    data: () => document.toJS(),
+    set: (keyPath, value) => {
+      const node = document.createNode(value);
+      // Comments belong to the node being replaced, so move them onto its replacement
+      const existing = keyPath.length > 0 ? document.getIn(keyPath, true) : undefined;
+      if (YAML.isNode(existing)) {
+        node.comment = existing.comment;
+        node.commentBefore = existing.commentBefore;
+      }
+      document.setIn(keyPath, node);
+    },
+    delete: (keyPath) => {
+      // A comment above the first key is usually a file header, so keep it in the document
+      const first = YAML.isMap(document.contents) ? document.contents.items[0] : undefined;
+      if (
+        keyPath.length === 1 &&
+        YAML.isScalar(first?.key) &&
+        first.key.value === keyPath[0] &&
+        first.key.commentBefore
+      ) {
+        document.commentBefore = [document.commentBefore, first.key.commentBefore]
+          .filter(Boolean)
+          .join('\n');
+      }
+      document.deleteIn(keyPath);
+    },
+    append: (keyPath, value) => {
+      const target = keyPath.length > 0 ? document.getIn(keyPath, true) : document.contents;
+      if (YAML.isSeq(target)) {
+        target.add(document.createNode(value));
+      } else {
+        document.setIn(keyPath, document.createNode([value]));
+      }
+    },
+    // A line width of 0 keeps long strings from being folded
+    toString: () => document.toString({ lineWidth: 0 }),
+  };
+}
+
+function openTomlDocument(text: string): StructuredDocument {
+  let data: Record<string, unknown>;
+  try {
+    data = toml.parse(text);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    throw new Error(`Cannot parse TOML: ${errorMessage}`);
+  }
+  return {
+    data: () => data,
+    set: (keyPath, value) => setValueAt(data, keyPath, value),
+    delete: (keyPath) => {
+      const parent = getValueAt(data, keyPath.slice(0, -1));
+      const key = keyPath[keyPath.length - 1]!;
+      if (Array.isArray(parent) && typeof key === 'number') {
+        parent.splice(key, 1);
+      } else if (isPlainObject(parent)) {
+        delete parent[String(key)];
+      }
+    },
+    append: (keyPath, value) => {
+      const target = getValueAt(data, keyPath);
+      if (Array.isArray(target)) {
+        target.push(value);
+      } else {
+        setValueAt(data, keyPath, [value]);
+      }
+    },
+    toString: () => toml.patch(text, data),
+  };
+}
+
+function openStructuredDocument(text: string, format: StructuredFormat): StructuredDocument {
+  switch (format) {
+  case 'json':
+    return openJsonDocument(text);
+  case 'yaml':
+    return openYamlDocument(text);
+  case 'toml':
+    return openTomlDocument(text);
+  }
+}
+
+function applyStructuredOperation(
+  document: StructuredDocument,
+  operation: StructuredEditOperationInput
+): void {
+  const segments = parseKeyPath(operation.path);
+  if (segments.length === 0) {
+    throw new Error('the document root cannot be edited');
+  }
+  const data = document.data();
+  const keyPath = resolveKeyPath(data, segments);
+  const current = getValueAt(data, keyPath);
+
+  if (operation.op !== 'delete' && operation.value === undefined) {
+    throw new Error(`'${operation.op}' requires a value`);
+  }
+  switch (operation.op) {
+  case 'set': {
+    const parent = getValueAt(data, keyPath.slice(0, -1));
+    if (Array.isArray(parent) && (keyPath[keyPath.length - 1] as number) > parent.length) {
+      throw new Error(`index out of range at ${operation.path}`);
+    }
+    document.set(keyPath, operation.value);
+    break;
+  }
+  case 'delete':
+    if (current === undefined) {
+      throw new Error(`nothing to delete at ${operation.path}`);
+    }
+    document.delete(keyPath);
+    break;
+  case 'append':
+    if (current !== undefined && !Array.isArray(current)) {
+      throw new Error(`${operation.path} is not an array`);
+    }
+    document.append(keyPath, operation.value);
+    break;
+  }
+}
+
+async function applyStructuredEdits(
+  filePath: string,
+  operations: StructuredEditOperationInput[],
+  requestedFormat: StructuredFormat | undefined,
+  dryRun = false
+): Promise<string> {
+  const format = requestedFormat ?? STRUCTURED_FORMATS[path.extname(filePath).toLowerCase()];
+  if (format === undefined) {
+    throw new Error(
+      `Cannot infer the format of ${filePath} from its extension; pass 'format' explicitly`
+    );
+  }
+
+  const decoded = decodeTextContent(filePath, await fs.readFile(filePath));
+  const content = normalizeLineEndings(decoded.text);
+  const document = openStructuredDocument(content, format);
+  const summary = operations.map((operation, index) => {
+    try {
+      applyStructuredOperation(document, operation);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Operation ${index + 1}: ${errorMessage}`);
+    }
+    return `Operation ${index + 1}: ${operation.op} ${operation.path}`;
+  });
+  const modifiedContent = document.toString();
+
+  const diff = createUnifiedDiff(content, modifiedContent, filePath);
+  if (!dryRun) {
+    const restored = restoreTextFormat(modifiedContent, decoded.format);
+    await writeFileAtomic(
+      filePath,
+      encodeTextContent(restored, decoded.format.encoding, decoded.format.bom)
+    );
+  }
+  return `${summary.join('\n')}\n\n${fenceDiff(diff)}`;
+}
+
+// Unified diff patch application
+interface FilePatch {
+  oldPath: string | null; // null when the file is created
+  newPath: string | null; // null when the file is deleted
+  hunks: Hunk[];
+  binary: boolean;
+}
+
+interface HunkResult {
+  header: string;
+  applied: boolean;
+}
+
+interface FilePatchResult {
+  label: string;
+  hunks: HunkResult[];
+  error?: string;
+}
+
+function stripPatchPrefix(fileName: string | undefined, prefix: string): string | null {
+  if (fileName === undefined || fileName === '/dev/null') {
+    return null;
+  }
+  return fileName.startsWith(prefix) ? fileName.slice(prefix.length) : fileName;
+}
+
+// Creations and deletions name /dev/null on one side, which has no a/ or b/ prefix
+function isGitStylePatch(parsed: ParsedDiff): boolean {
+  const { oldFileName, newFileName } = parsed;
+  const hasPrefix = (fileName: string | undefined, prefix: string) =>
+    fileName === undefined || fileName === '/dev/null' || fileName.startsWith(prefix);
+  return (
+    hasPrefix(oldFileName, 'a/') &&
+    hasPrefix(newFileName, 'b/') &&
+    (oldFileName?.startsWith('a/') || newFileName?.startsWith('b/')) === true
+  );
+}
 
-    // If exact match exists, use it
-    if (modifiedContent.includes(normalizedOld)) {
-      modifiedContent = modifiedContent.replace(normalizedOld, normalizedNew);
+// jsdiff does not understand git extended headers, so split git patches per file first
+// and read renames, creations and deletions from the headers ourselves
+function parseMultiFilePatch(patchText: string): FilePatch[] {
+  const normalized = normalizeLineEndings(patchText);
+  if (!/^diff --git /m.test(normalized)) {
+    return parsePatch(normalized)
+      .filter((parsed) => parsed.oldFileName !== undefined || parsed.newFileName !== undefined)
+      .map((parsed) => {
+        const gitStyle = isGitStylePatch(parsed);
+        return {
+          oldPath: stripPatchPrefix(parsed.oldFileName, gitStyle ? 'a/' : ''),
+          newPath: stripPatchPrefix(parsed.newFileName, gitStyle ? 'b/' : ''),
+          hunks: parsed.hunks,
+          binary: false,
+        };
+      });
+  }
+
+  const sections = normalized.split(/^(?=diff --git )/m).filter((section) => section.trim());
+  return sections
+    .filter((section) => section.startsWith('diff --git '))
+    .map((section) => {
+      const header = /^diff --git a\/(.+?) b\/(.+)$/m.exec(section);
+      const renameFrom = /^rename from (.+)$/m.exec(section)?.[1];
+      const renameTo = /^rename to (.+)$/m.exec(section)?.[1];
+      const parsed: ParsedDiff | undefined = parsePatch(section)[0];
+
+      let oldPath: string | null = renameFrom ?? header?.[1] ?? null;
+      let newPath: string | null = renameTo ?? header?.[2] ?? null;
+      if (/^new file mode /m.test(section) || parsed?.oldFileName === '/dev/null') {
+        oldPath = null;
+      }
+      if (/^deleted file mode /m.test(section) || parsed?.newFileName === '/dev/null') {
+        newPath = null;
+      }
+      return {
+        oldPath,
+        newPath,
+        hunks: parsed?.hunks ?? [],
+        binary: /^(Binary files .* differ|GIT binary patch)$/m.test(section),
+      };
+    });
+}
+
+function formatHunkHeader(hunk: Hunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+// Apply hunks one at a time so failures can be reported per hunk
+function applyHunks(
+  source: string,
+  hunks: Hunk[],
+  fuzz: number
+): { content: string; results: HunkResult[] } {
+  let content = source;
+  let lineDelta = 0;
+  const results: HunkResult[] = [];
+  for (const hunk of hunks) {
+    const shifted = { ...hunk, oldStart: hunk.oldStart + lineDelta };
+    const patched = applyPatch(content, { hunks: [shifted] } as ParsedDiff, { fuzzFactor: fuzz });
+    if (patched === false) {
+      results.push({ header: formatHunkHeader(hunk), applied: false });
       continue;
     }
+    content = patched;
+    lineDelta += hunk.newLines - hunk.oldLines;
+    results.push({ header: formatHunkHeader(hunk), applied: true });
+  }
+  return { content, results };
+}
+
+async function readFileIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
 
-    // Otherwise, try line-by-line matching with flexibility for whitespace
-    const oldLines = normalizedOld.split('\n');
-    const contentLines = modifiedContent.split('\n');
-    let matchFound = false;
+async function applyMultiFilePatch(
+  patchText: string,
+  basePath: string,
+  fuzz: number,
+  dryRun: boolean
+): Promise<string> {
+  const filePatches = parseMultiFilePatch(patchText);
+  if (filePatches.length === 0) {
+    throw new Error('Patch does not contain any file changes');
+  }
 
-    for (let i = 0; i <= contentLines.length - oldLines.length; i++) {
-      const potentialMatch = contentLines.slice(i, i + oldLines.length);
+  // Stage every change in memory first; null marks a file to be deleted
+  const staged = new Map<string, string | null>();
+  const originals = new Map<string, string | null>();
+  const results: FilePatchResult[] = [];
 
-      // Compare lines with normalized whitespace
-      const isMatch = oldLines.every((oldLine, j) => {
-        const contentLine = potentialMatch[j];
-        return oldLine.trim() === contentLine.trim();
-      });
+  async function readStaged(filePath: string): Promise<string | null> {
+    if (staged.has(filePath)) {
+      return staged.get(filePath) ?? null;
+    }
+    if (!originals.has(filePath)) {
+      originals.set(filePath, await readFileIfExists(filePath));
+    }
+    return originals.get(filePath) ?? null;
+  }
 
-      if (isMatch) {
-        // Preserve original indentation of first line
-        const originalIndent = contentLines[i].match(/^\s*/)?.[0] || '';
-        const newLines = normalizedNew.split('\n').map((line, j) => {
-          if (j === 0) return originalIndent + line.trimStart();
-          // For subsequent lines, try to preserve relative indentation
-          const oldIndent = oldLines[j]?.match(/^\s*/)?.[0] || '';
-          const newIndent = line.match(/^\s*/)?.[0] || '';
-          if (oldIndent && newIndent) {
-            const relativeIndent = newIndent.length - oldIndent.length;
-            return originalIndent + ' '.repeat(Math.max(0, relativeIndent)) + line.trimStart();
-          }
-          return line;
-        });
+  for (const filePatch of filePatches) {
+    const label =
+      filePatch.oldPath === null
+        ? `A ${filePatch.newPath}`
+        : filePatch.newPath === null
+          ? `D ${filePatch.oldPath}`
+          : filePatch.oldPath !== filePatch.newPath
+            ? `R ${filePatch.oldPath} -> ${filePatch.newPath}`
+            : `M ${filePatch.oldPath}`;
+    const result: FilePatchResult = { label, hunks: [] };
+    results.push(result);
 
-        contentLines.splice(i, oldLines.length, ...newLines);
-        modifiedContent = contentLines.join('\n');
-        matchFound = true;
-        break;
+    try {
+      if (filePatch.binary) {
+        throw new Error('binary patches are not supported');
       }
+      const oldPath =
+        filePatch.oldPath !== null
+          ? await validatePath(path.resolve(basePath, filePatch.oldPath))
+          : null;
+      const newPath =
+        filePatch.newPath !== null
+          ? await validateCreatablePath(path.resolve(basePath, filePatch.newPath))
+          : null;
+      // A dry run only previews the patch, so read-only directories are fine
+      for (const touchedPath of [oldPath, newPath]) {
+        if (touchedPath !== null && !dryRun) {
+          assertWritable(touchedPath);
+        }
+      }
+
+      let source = '';
+      if (oldPath !== null) {
+        const existing = await readStaged(oldPath);
+        if (existing === null) {
+          throw new Error('file does not exist');
+        }
+        source = existing;
+      }
+      if (newPath !== null && newPath !== oldPath && (await readStaged(newPath)) !== null) {
+        throw new Error(`${filePatch.newPath} already exists`);
+      }
+
+      const { content, results: hunkResults } = applyHunks(source, filePatch.hunks, fuzz);
+      result.hunks = hunkResults;
+      if (hunkResults.some((hunk) => !hunk.applied)) {
+        throw new Error('one or more hunks failed to apply');
+      }
+      if (newPath === null && content !== '') {
+        throw new Error('deleted file content does not match the patch');
+      }
+
+      if (oldPath !== null && oldPath !== newPath) {
+        staged.set(oldPath, null);
+      }
+      if (newPath !== null) {
+        staged.set(newPath, content);
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : String(error);
     }
+  }
 
-    if (!matchFound) {
-      throw new Error(`Could not find exact match for edit:\n${edit.oldText}`);
+  const report = results
+    .map((result) => {
+      const lines = [result.label + (result.error ? ` - FAILED: ${result.error}` : '')];
+      for (const hunk of result.hunks) {
+        lines.push(`  ${hunk.header} ${hunk.applied ? 'applied' : 'FAILED'}`);
+      }
+      return lines.join('\n');
+    })
+    .join('\n');
+
+  if (results.some((result) => result.error)) {
+    throw new Error(`Patch does not apply; no files were modified.\n${report}`);
+  }
+  if (dryRun) {
+    return `Dry run: patch applies cleanly to ${results.length} file(s).\n${report}`;
+  }
+
+  // Write everything, restoring the original state if any write fails
+  const pendingChanges = await Promise.all(
+    [...staged.keys()].map((filePath) => captureFileState(filePath))
+  );
+  const written: string[] = [];
+  // Directories created for new files, parents before children
+  const createdDirectories: string[] = [];
+  try {
+    for (const [filePath, content] of staged) {
+      if (!originals.has(filePath)) {
+        originals.set(filePath, await readFileIfExists(filePath));
+      }
+      written.push(filePath);
+      if (content === null) {
+        await fs.unlink(filePath);
+      } else {
+        createdDirectories.push(...(await createDirectories(path.dirname(filePath))));
+        await writeFileAtomic(filePath, content);
+      }
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const rollbackErrors: string[] = [];
+    for (const filePath of written.reverse()) {
+      const original = originals.get(filePath) ?? null;
+      try {
+        if (original === null) {
+          await fs.rm(filePath, { force: true });
+        } else {
+          await writeFileAtomic(filePath, original);
+        }
+      } catch (rollbackError) {
+        rollbackErrors.push(
+          `${filePath}: ${rollbackError instanceof Error ? rollbackError.message : rollbackError}`
+        );
+      }
+    }
+    for (const dirPath of createdDirectories.reverse()) {
+      await fs.rmdir(dirPath).catch((rollbackError: Error) => {
+        rollbackErrors.push(`${dirPath}: ${rollbackError.message}`);
+      });
     }
+    if (rollbackErrors.length > 0) {
+      throw new Error(
+        `Failed to write patched files: ${errorMessage}\n` +
+          'Rolling back also failed, the following paths may be left modified:\n' +
+          rollbackErrors.join('\n')
+      );
+    }
+    throw new Error(`Failed to write patched files, changes were rolled back: ${errorMessage}`);
   }
+  await recordChange('apply_patch', [
+    ...(createdDirectories.length > 0
+      ? [{ type: 'mkdir' as const, paths: createdDirectories }]
+      : []),
+    ...pendingChanges,
+  ]);
 
-  // Create unified diff
-  const diff = createUnifiedDiff(content, modifiedContent, filePath);
+  return `Applied patch to ${results.length} file(s).\n${report}`;
+}
 
-  // Format diff with appropriate number of backticks
-  let numBackticks = 3;
-  while (diff.includes('`'.repeat(numBackticks))) {
-    numBackticks++;
+// Glob expansion
+const GLOB_MAGIC = /[*?[\]{}]/;
+
+// Expand file arguments that may be glob patterns. Globs are walked from their longest
+// non-glob directory prefix, skipping ignored, denied and unreadable entries.
+async function expandPathPatterns(patterns: string[]): Promise<string[]> {
+  const files = new Set<string>();
+  for (const pattern of patterns) {
+    if (!GLOB_MAGIC.test(pattern)) {
+      files.add(await validatePath(pattern));
+      continue;
+    }
+    const absolutePattern = path.resolve(expandHome(pattern));
+    const segments = absolutePattern.split(path.sep);
+    const firstGlob = segments.findIndex((segment) => GLOB_MAGIC.test(segment));
+    const basePath = await validatePath(segments.slice(0, firstGlob).join(path.sep) || path.sep);
+
+    const walk = async (currentPath: string, ignoreStack: IgnoreStack) => {
+      const entries = await fs.readdir(currentPath, { withFileTypes: true }).catch(() => []);
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        const fullPath = path.join(currentPath, entry.name);
+        if (isIgnoredPath(ignoreStack, fullPath, entry.isDirectory())) {
+          continue;
+        }
+        try {
+          await validatePath(fullPath);
+        } catch {
+          continue;
+        }
+        if (entry.isDirectory()) {
+          await walk(fullPath, await extendIgnoreStack(ignoreStack, fullPath));
+        } else if (entry.isFile() && minimatch(fullPath, absolutePattern)) {
+          files.add(fullPath);
+        }
+      }
+    };
+    await walk(basePath, await createIgnoreStack(basePath));
+  }
+  return [...files];
+}
+
+// Prettier formatting
+type FormatStatus = 'formatted' | 'unchanged' | 'ignored' | 'unsupported' | 'failed';
+
+interface FormatResult {
+  filePath: string;
+  status: FormatStatus;
+  message?: string;
+  diff?: string;
+  // New content and the original encoding, for files that changed
+  formatted?: string;
+  format?: TextFormat;
+}
+
+// Prettier only reads .prettierignore from the directory it runs in, so look for the
+// nearest one between the file and its allowed directory
+async function findPrettierIgnore(filePath: string): Promise<string | undefined> {
+  const root = findAllowedRoot(filePath);
+  let dir = path.dirname(filePath);
+  while (root !== undefined && isPathWithin(dir, root)) {
+    const candidate = path.join(dir, '.prettierignore');
+    if (await pathExists(candidate)) {
+      return candidate;
+    }
+    dir = path.dirname(dir);
+  }
+  return undefined;
+}
+
+async function formatWithPrettier(filePath: string): Promise<FormatResult> {
+  const fileInfo = await prettier.getFileInfo(filePath, {
+    ignorePath: await findPrettierIgnore(filePath),
+    resolveConfig: true,
+  });
+  if (fileInfo.ignored) {
+    return { filePath, status: 'ignored', message: 'matched by .prettierignore' };
+  }
+  if (!fileInfo.inferredParser) {
+    return { filePath, status: 'unsupported', message: 'no Prettier parser' };
+  }
+
+  try {
+    const decoded = decodeTextContent(filePath, await fs.readFile(filePath));
+    const config = (await prettier.resolveConfig(filePath, { editorconfig: true })) ?? {};
+    const formatted = await prettier.format(decoded.text, { ...config, filepath: filePath });
+    if (formatted === decoded.text) {
+      return { filePath, status: 'unchanged' };
+    }
+    return {
+      filePath,
+      status: 'formatted',
+      diff: createUnifiedDiff(decoded.text, formatted, filePath),
+      formatted,
+      format: decoded.format,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    return { filePath, status: 'failed', message };
   }
-  const formattedDiff = `${'`'.repeat(numBackticks)}diff\n${diff}${'`'.repeat(numBackticks)}\n\n`;
+}
 
+async function formatFiles(patterns: string[], dryRun: boolean): Promise<string> {
+  const files = await expandPathPatterns(patterns);
+  if (files.length === 0) {
+    throw new Error(`No files match ${patterns.join(', ')}`);
+  }
   if (!dryRun) {
-    await fs.writeFile(filePath, modifiedContent, 'utf-8');
+    files.forEach(assertWritable);
+  }
+
+  const results: FormatResult[] = [];
+  const pendingChanges: PendingFileChange[] = [];
+  try {
+    for (const filePath of files) {
+      // Parse errors are reported per file instead of failing the batch
+      const result = await formatWithPrettier(filePath);
+      results.push(result);
+      if (!dryRun && result.formatted !== undefined && result.format) {
+        const pendingChange = await captureFileState(filePath);
+        // Prettier decides the newline style itself, so only the encoding and BOM are kept
+        await writeFileAtomic(
+          filePath,
+          encodeTextContent(result.formatted, result.format.encoding, result.format.bom)
+        );
+        pendingChanges.push(pendingChange);
+      }
+    }
+  } finally {
+    if (pendingChanges.length > 0) {
+      await recordChange('format_file', pendingChanges);
+    }
+  }
+
+  const formattedCount = results.filter((result) => result.status === 'formatted').length;
+  const report = results.map(
+    (result) =>
+      `${result.filePath}: ${result.status === 'unchanged' ? 'already formatted' : result.status}` +
+      (result.message ? ` - ${result.message}` : '')
+  );
+  const diffs = results.flatMap((result) => (result.diff ? [fenceDiff(result.diff)] : []));
+  const heading = dryRun
+    ? `Would format ${formattedCount} of ${results.length} file(s)`
+    : `Formatted ${formattedCount} of ${results.length} file(s)`;
+  return `${heading}:\n${report.join('\n')}\n\n${diffs.join('')}`.trimEnd();
+}
+
+// Jupyter notebooks (nbformat 4)
+type NotebookSource = string | string[];
+
+interface NotebookOutput {
+  output_type: 'stream' | 'execute_result' | 'display_data' | 'error';
+  name?: string;
+  text?: NotebookSource;
+  data?: Record<string, NotebookSource>;
+  ename?: string;
+  evalue?: string;
+  traceback?: string[];
+}
+
+interface NotebookCell {
+  cell_type: 'code' | 'markdown' | 'raw';
+  id?: string;
+  metadata: Record<string, unknown>;
+  source: NotebookSource;
+  attachments?: Record<string, unknown>;
+  outputs?: NotebookOutput[];
+  execution_count?: number | null;
+}
+
+interface Notebook {
+  nbformat: number;
+  nbformat_minor: number;
+  metadata: Record<string, unknown>;
+  cells: NotebookCell[];
+}
+
+// Matches terminal color codes, which tracebacks are full of
+const ANSI_ESCAPE = new RegExp(String.fromCharCode(27) + '\\[[0-9;]*[A-Za-z]', 'g');
+
+function parseNotebook(filePath: string, text: string): Notebook {
+  let notebook: Notebook;
+  try {
+    notebook = JSON.parse(text);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Cannot parse notebook ${filePath}: ${errorMessage}`);
+  }
+  if (notebook?.nbformat !== 4 || !Array.isArray(notebook.cells)) {
+    throw new Error(`${filePath} is not an nbformat 4 notebook`);
+  }
+  return notebook;
+}
+
+function joinNotebookSource(source: NotebookSource | undefined): string {
+  return Array.isArray(source) ? source.join('') : (source ?? '');
+}
+
+// nbformat stores multiline strings as a list of lines that keep their newlines
+function splitNotebookSource(text: string): string[] {
+  return text === '' ? [] : text.split(/(?<=\n)/);
+}
+
+function trimOutputText(text: string, maxChars: number): string {
+  const trimmed = text.replace(/\n+$/, '');
+  if (trimmed.length <= maxChars) {
+    return trimmed;
+  }
+  return `${trimmed.slice(0, maxChars)}\n... [${trimmed.length - maxChars} more characters]`;
+}
+
+type NotebookContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string };
+
+function formatNotebook(
+  notebook: Notebook,
+  options: z.infer<typeof ReadNotebookArgsSchema>
+): NotebookContent[] {
+  const kernel = (notebook.metadata.kernelspec as { display_name?: string } | undefined)
+    ?.display_name;
+  const content: NotebookContent[] = [];
+  const lines = [
+    `Notebook: ${notebook.cells.length} cells, nbformat ${notebook.nbformat}.` +
+      `${notebook.nbformat_minor}${kernel ? `, kernel ${kernel}` : ''}`,
+  ];
+  // Images are separate content items, so text collected so far is flushed before each one
+  const flush = () => {
+    if (lines.length > 0) {
+      content.push({ type: 'text', text: lines.join('\n') });
+      lines.length = 0;
+    }
+  };
+
+  for (const [index, cell] of notebook.cells.entries()) {
+    const details = [
+      ...(cell.id ? [`id: ${cell.id}`] : []),
+      ...(cell.execution_count != null ? [`execution_count: ${cell.execution_count}`] : []),
+    ];
+    const suffix = details.length > 0 ? ` (${details.join(', ')})` : '';
+    lines.push('', `[${index}] ${cell.cell_type}${suffix}`);
+    lines.push(joinNotebookSource(cell.source));
+    if (!options.includeOutputs) {
+      continue;
+    }
+
+    for (const output of cell.outputs ?? []) {
+      if (output.output_type === 'stream') {
+        lines.push(`--- output (${output.name ?? 'stream'})`);
+        lines.push(trimOutputText(joinNotebookSource(output.text), options.maxOutputChars));
+      } else if (output.output_type === 'error') {
+        lines.push(`--- error (${output.ename}: ${output.evalue})`);
+        const traceback = (output.traceback ?? []).join('\n').replace(ANSI_ESCAPE, '');
+        lines.push(trimOutputText(traceback, options.maxOutputChars));
+      } else {
+        const data = output.data ?? {};
+        const images = Object.keys(data).filter((mimeType) => mimeType.startsWith('image/'));
+        const text = data['text/plain'];
+        if (text !== undefined) {
+          lines.push(`--- output (${output.output_type})`);
+          lines.push(trimOutputText(joinNotebookSource(text), options.maxOutputChars));
+        }
+        for (const mimeType of images) {
+          // SVG is text in nbformat; only base64-encoded raster images can be returned
+          if (options.includeImages && INLINE_IMAGE_MIME_TYPES.has(mimeType)) {
+            lines.push(`--- output (${mimeType})`);
+            flush();
+            const imageData = joinNotebookSource(data[mimeType]).replace(/\s+/g, '');
+            content.push({ type: 'image', data: imageData, mimeType });
+          } else {
+            lines.push(`--- output (${mimeType} omitted)`);
+          }
+        }
+      }
+    }
+  }
+  flush();
+  return content;
+}
+
+function createNotebookCell(
+  cellType: NotebookCell['cell_type'],
+  source: string,
+  id: string | undefined
+): NotebookCell {
+  // Keys are in the alphabetical order Jupyter writes them in, keeping saved diffs small
+  const isCode = cellType === 'code';
+  return {
+    cell_type: cellType,
+    ...(isCode && { execution_count: null }),
+    ...(id !== undefined && { id }),
+    metadata: {},
+    ...(isCode && { outputs: [] }),
+    source: splitNotebookSource(source),
+  };
+}
+
+// Fields to change on an existing cell; undefined removes a field. Everything else,
+// including metadata and attachments, is left as it is in the file.
+function replaceNotebookCell(
+  existing: NotebookCell,
+  cellType: NotebookCell['cell_type'],
+  source: string
+): [keyof NotebookCell, unknown][] {
+  const changes: [keyof NotebookCell, unknown][] = [];
+  if (cellType !== existing.cell_type) {
+    changes.push(['cell_type', cellType]);
+  }
+  changes.push(['source', splitNotebookSource(source)]);
+  if (cellType === 'code') {
+    // Outputs of the old source are stale, so code cells start over unexecuted
+    changes.push(['execution_count', null], ['outputs', []]);
+    if (existing.attachments !== undefined) {
+      changes.push(['attachments', undefined]);
+    }
+  } else if (existing.cell_type === 'code') {
+    changes.push(['execution_count', undefined], ['outputs', undefined]);
+  }
+  return changes;
+}
+
+// nbformat 4.5 and later require a unique id on every cell
+function createNotebookCellId(notebook: Notebook): string | undefined {
+  if (notebook.nbformat_minor < 5) {
+    return undefined;
+  }
+  const existing = new Set(notebook.cells.map((cell) => cell.id));
+  let id: string;
+  do {
+    id = randomBytes(4).toString('hex');
+  } while (existing.has(id));
+  return id;
+}
+
+function findNotebookCell(
+  notebook: Notebook,
+  index: number | undefined,
+  cellId: string | undefined
+): number {
+  if (cellId !== undefined) {
+    const found = notebook.cells.findIndex((cell) => cell.id === cellId);
+    if (found === -1) {
+      throw new Error(`No cell with id ${cellId}`);
+    }
+    return found;
+  }
+  return index!;
+}
+
+async function editNotebookCell(
+  filePath: string,
+  args: z.infer<typeof EditNotebookCellArgsSchema>
+): Promise<string> {
+  const decoded = decodeTextContent(filePath, await fs.readFile(filePath));
+  const notebook = parseNotebook(filePath, decoded.text);
+  const { action, source } = args;
+  const cellCount = notebook.cells.length;
+  const position = findNotebookCell(notebook, args.index, args.cellId);
+  if (position > (action === 'insert' ? cellCount : cellCount - 1)) {
+    throw new Error(`Cell index ${position} is out of range, the notebook has ${cellCount} cells`);
+  }
+  if (action !== 'delete' && source === undefined) {
+    throw new Error(`'source' is required to ${action} a cell`);
+  }
+
+  // The file text is edited in place rather than re-serialized, so untouched cells and
+  // metadata keep their exact formatting (JSON.parse would turn 1.0 into 1)
+  let modified = decoded.text;
+  const formattingOptions = detectJsonIndentation(decoded.text);
+  const modify = (keyPath: KeyPath, value: unknown, isArrayInsertion = false) => {
+    modified = modifyJsonText(modified, keyPath, value, formattingOptions, isArrayInsertion);
+  };
+
+  let summary: string;
+  let oldSource = '';
+  let newSource = '';
+  if (action === 'insert') {
+    const cellType = args.cellType ?? 'code';
+    const cell = createNotebookCell(cellType, source!, createNotebookCellId(notebook));
+    modify(['cells', position], cell, true);
+    newSource = source!;
+    summary = `Inserted ${cellType} cell at index ${position}`;
+  } else if (action === 'replace') {
+    const existing = notebook.cells[position]!;
+    const cellType = args.cellType ?? existing.cell_type;
+    for (const [key, value] of replaceNotebookCell(existing, cellType, source!)) {
+      modify(['cells', position, key], value);
+    }
+    oldSource = joinNotebookSource(existing.source);
+    newSource = source!;
+    summary = `Replaced ${cellType} cell at index ${position}`;
+  } else {
+    const removed = notebook.cells[position]!;
+    modify(['cells', position], undefined);
+    oldSource = joinNotebookSource(removed.source);
+    summary = `Deleted ${removed.cell_type} cell at index ${position}`;
   }
 
-  return formattedDiff;
+  const diff = createUnifiedDiff(oldSource, newSource, `${filePath} cell ${position}`);
+  if (!args.dryRun) {
+    const restored = restoreTextFormat(normalizeLineEndings(modified), decoded.format);
+    await writeFileAtomic(
+      filePath,
+      encodeTextContent(restored, decoded.format.encoding, decoded.format.bom)
+    );
+  }
+  return `${summary}\n\n${fenceDiff(diff)}`;
+}
+
+// Source outline utilities (TypeScript compiler API)
+// typescript is an optional peer dependency, loaded on first use by loadTypeScript
+let ts: typeof TypeScript;
+
+async function loadTypeScript(): Promise<void> {
+  if (ts !== undefined) {
+    return;
+  }
+  try {
+    ts = (await import('typescript')).default;
+  } catch {
+    throw new Error(
+      'file_outline and read_symbol require the typescript package, which is not installed'
+    );
+  }
+}
+
+const SCRIPT_KINDS: Record<string, keyof typeof TypeScript.ScriptKind> = {
+  '.ts': 'TS',
+  '.mts': 'TS',
+  '.cts': 'TS',
+  '.tsx': 'TSX',
+  '.js': 'JS',
+  '.mjs': 'JS',
+  '.cjs': 'JS',
+  '.jsx': 'JSX',
+};
+
+type OutlineKind =
+  | 'class'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'function'
+  | 'variable'
+  | 'namespace'
+  | 'export'
+  | 'constructor'
+  | 'method'
+  | 'property'
+  | 'getter'
+  | 'setter';
+
+interface OutlineSymbol {
+  name: string;
+  kind: OutlineKind;
+  exported: boolean;
+  startLine: number;
+  endLine: number;
+  // Start of the declaration including its JSDoc comment, used by read_symbol
+  sourceStart: number;
+  end: number;
+  children: OutlineSymbol[];
+}
+
+async function parseSourceFile(filePath: string): Promise<TypeScript.SourceFile> {
+  const scriptKind = SCRIPT_KINDS[path.extname(filePath).toLowerCase()];
+  if (scriptKind === undefined) {
+    throw new Error(
+      `Unsupported file type for outline: ${filePath} ` +
+        `(supported: ${Object.keys(SCRIPT_KINDS).join(', ')})`
+    );
+  }
+  await loadTypeScript();
+  const content = await readTextFile(filePath);
+  return ts.createSourceFile(
+    filePath,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind[scriptKind]
+  );
+}
+
+function isExported(node: TypeScript.Node): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some(
+      (modifier) =>
+        modifier.kind === ts.SyntaxKind.ExportKeyword ||
+        modifier.kind === ts.SyntaxKind.DefaultKeyword
+    )
+  );
+}
+
+function createOutlineSymbol(
+  sourceFile: TypeScript.SourceFile,
+  node: TypeScript.Node,
+  name: string,
+  kind: OutlineKind,
+  exported: boolean,
+  children: OutlineSymbol[] = []
+): OutlineSymbol {
+  const jsDoc = ts.getJSDocCommentsAndTags(node)[0];
+  const start = node.getStart(sourceFile);
+  return {
+    name,
+    kind,
+    exported,
+    startLine: sourceFile.getLineAndCharacterOfPosition(start).line + 1,
+    endLine: sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1,
+    sourceStart: jsDoc ? Math.min(jsDoc.getStart(sourceFile), start) : start,
+    end: node.getEnd(),
+    children,
+  };
+}
+
+function outlineClassMembers(
+  sourceFile: TypeScript.SourceFile,
+  members: TypeScript.NodeArray<TypeScript.ClassElement>
+): OutlineSymbol[] {
+  const symbols: OutlineSymbol[] = [];
+  for (const member of members) {
+    const name = member.name ? member.name.getText(sourceFile) : 'constructor';
+    if (ts.isConstructorDeclaration(member)) {
+      symbols.push(createOutlineSymbol(sourceFile, member, 'constructor', 'constructor', false));
+    } else if (ts.isMethodDeclaration(member)) {
+      symbols.push(createOutlineSymbol(sourceFile, member, name, 'method', false));
+    } else if (ts.isPropertyDeclaration(member)) {
+      symbols.push(createOutlineSymbol(sourceFile, member, name, 'property', false));
+    } else if (ts.isGetAccessorDeclaration(member)) {
+      symbols.push(createOutlineSymbol(sourceFile, member, name, 'getter', false));
+    } else if (ts.isSetAccessorDeclaration(member)) {
+      symbols.push(createOutlineSymbol(sourceFile, member, name, 'setter', false));
+    }
+  }
+  return symbols;
+}
+
+function outlineStatements(
+  sourceFile: TypeScript.SourceFile,
+  statements: TypeScript.NodeArray<TypeScript.Statement>
+): OutlineSymbol[] {
+  const symbols: OutlineSymbol[] = [];
+  for (const statement of statements) {
+    const exported = isExported(statement);
+    if (ts.isClassDeclaration(statement)) {
+      const name = statement.name?.text ?? 'default';
+      const members = outlineClassMembers(sourceFile, statement.members);
+      symbols.push(createOutlineSymbol(sourceFile, statement, name, 'class', exported, members));
+    } else if (ts.isFunctionDeclaration(statement)) {
+      const name = statement.name?.text ?? 'default';
+      symbols.push(createOutlineSymbol(sourceFile, statement, name, 'function', exported));
+    } else if (ts.isInterfaceDeclaration(statement)) {
+      const name = statement.name.text;
+      symbols.push(createOutlineSymbol(sourceFile, statement, name, 'interface', exported));
+    } else if (ts.isTypeAliasDeclaration(statement)) {
+      const name = statement.name.text;
+      symbols.push(createOutlineSymbol(sourceFile, statement, name, 'type', exported));
+    } else if (ts.isEnumDeclaration(statement)) {
+      const name = statement.name.text;
+      symbols.push(createOutlineSymbol(sourceFile, statement, name, 'enum', exported));
+    } else if (ts.isModuleDeclaration(statement)) {
+      const name = statement.name.getText(sourceFile);
+      const children =
+        statement.body && ts.isModuleBlock(statement.body)
+          ? outlineStatements(sourceFile, statement.body.statements)
+          : [];
+      symbols.push(
+        createOutlineSymbol(sourceFile, statement, name, 'namespace', exported, children)
+      );
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        const initializer = declaration.initializer;
+        const isFunction =
+          initializer !== undefined &&
+          (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer));
+        const isClass = initializer !== undefined && ts.isClassExpression(initializer);
+        const children = isClass ? outlineClassMembers(sourceFile, initializer.members) : [];
+        // A single declaration spans the whole statement so that read_symbol includes 'const'
+        const node = statement.declarationList.declarations.length === 1 ? statement : declaration;
+        symbols.push(
+          createOutlineSymbol(
+            sourceFile,
+            node,
+            declaration.name.getText(sourceFile),
+            isClass ? 'class' : isFunction ? 'function' : 'variable',
+            exported,
+            children
+          )
+        );
+      }
+    } else if (ts.isExportAssignment(statement)) {
+      symbols.push(createOutlineSymbol(sourceFile, statement, 'default', 'export', true));
+    } else if (ts.isExportDeclaration(statement)) {
+      const name =
+        statement.exportClause && ts.isNamedExports(statement.exportClause)
+          ? statement.exportClause.elements.map((element) => element.name.text).join(', ')
+          : statement.exportClause
+            ? statement.exportClause.name.text
+            : '*';
+      const from = statement.moduleSpecifier
+        ? ` from ${statement.moduleSpecifier.getText(sourceFile)}`
+        : '';
+      symbols.push(createOutlineSymbol(sourceFile, statement, name + from, 'export', true));
+    }
+  }
+  return symbols;
+}
+
+function formatOutline(symbols: OutlineSymbol[], indent = ''): string[] {
+  return symbols.flatMap((symbol) => {
+    const lines =
+      symbol.startLine === symbol.endLine
+        ? `line ${symbol.startLine}`
+        : `lines ${symbol.startLine}-${symbol.endLine}`;
+    const exported = symbol.exported && symbol.kind !== 'export' ? 'export ' : '';
+    const label = symbol.kind === 'constructor' ? 'constructor' : `${symbol.kind} ${symbol.name}`;
+    return [
+      `${indent}${exported}${label} [${lines}]`,
+      ...formatOutline(symbol.children, indent + '  '),
+    ];
+  });
+}
+
+// Resolve 'Outer.inner' paths; every declaration with the final name is returned, so
+// overloads and merged declarations come back together
+function findOutlineSymbols(symbols: OutlineSymbol[], symbolPath: string): OutlineSymbol[] {
+  const [head, ...rest] = symbolPath.split('.');
+  const matches = symbols.filter((symbol) => symbol.name === head);
+  if (rest.length === 0) {
+    return matches;
+  }
+  return matches.flatMap((symbol) => findOutlineSymbols(symbol.children, rest.join('.')));
 }
 
 // Tool handlers
@@ -345,12 +4772,28 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       {
         name: 'read_file',
         description:
-          'Read the complete contents of a file from the file system. ' +
+          'Read the contents of a file from the file system. ' +
           'Handles various text encodings and provides detailed error messages ' +
           'if the file cannot be read. Use this tool when you need to examine ' +
-          'the contents of a single file. Only works within allowed directories.',
+          "the contents of a single file. Set 'encoding' for latin1, UTF-16LE or Shift_JIS " +
+          "files. Use 'offset' and 'limit' to read a range " +
+          "of lines and 'maxBytes' to cap the size of large files. The response ends " +
+          'with a footer giving the line range, total lines, bytes returned, whether ' +
+          "the output was truncated, and the file's sha256 and mtime, which can be passed " +
+          "to write_file and edit_file as 'expectedSha256'/'expectedMtime'. " +
+          'Only works within allowed directories.',
         inputSchema: zodToJsonSchema(ReadFileArgsSchema) as ToolInput,
       },
+      {
+        name: 'read_media_file',
+        description:
+          'Read an image or other binary file. The MIME type is detected from the ' +
+          'file signature and extension. PNG, JPEG, GIF and WebP images are returned as ' +
+          'base64 image content; other binary files are summarized with their MIME type, ' +
+          "size and a hex or base64 preview of the first 'previewBytes' bytes. Text files " +
+          'are returned as text. Only works within allowed directories.',
+        inputSchema: zodToJsonSchema(ReadMediaFileArgsSchema) as ToolInput,
+      },
       {
         name: 'read_multiple_files',
         description:
@@ -358,14 +4801,28 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           'efficient than reading files one by one when you need to analyze ' +
           "or compare multiple files. Each file's content is returned with its " +
           "path as a reference. Failed reads for individual files won't stop " +
-          'the entire operation. Only works within allowed directories.',
+          "the entire operation. 'maxTotalBytes' sets one byte budget shared by all " +
+          'files in the order given. Only works within allowed directories.',
         inputSchema: zodToJsonSchema(ReadMultipleFilesArgsSchema) as ToolInput,
       },
+      {
+        name: 'read_notebook',
+        description:
+          'Read a Jupyter notebook (.ipynb) as a list of cells with their index, type, id ' +
+          'and source, followed by the text outputs of code cells, each trimmed to ' +
+          "'maxOutputChars'. Image outputs are left out unless 'includeImages' is true. " +
+          'Prefer this over read_file for notebooks. Only works within allowed directories.',
+        inputSchema: zodToJsonSchema(ReadNotebookArgsSchema) as ToolInput,
+      },
       {
         name: 'write_file',
         description:
           'Create a new file or completely overwrite an existing file with new content. ' +
-          'Use with caution as it will overwrite existing files without warning. ' +
+          'Use with caution as it will overwrite existing files without warning; the previous ' +
+          'content is kept in the change journal and can be restored with undo_change. ' +
+          "Pass 'expectedSha256' or 'expectedMtime' from read_file to refuse the write if " +
+          'the file changed in the meantime. Files are written atomically. ' +
+          "Set 'encoding' to write latin1, UTF-16LE or Shift_JIS instead of UTF-8. " +
           'Handles text content with proper encoding. Only works within allowed directories.',
         inputSchema: zodToJsonSchema(WriteFileArgsSchema) as ToolInput,
       },
@@ -373,10 +4830,63 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         name: 'edit_file',
         description:
           'Make line-based edits to a text file. Each edit replaces exact line sequences ' +
-          'with new content. Returns a git-style diff showing the changes made. ' +
-          'Only works within allowed directories.',
+          'with new content, falling back to a whitespace-insensitive line match. An edit ' +
+          'whose oldText matches more than once fails and lists the candidate line numbers; ' +
+          "set 'occurrence' to pick one match or 'replaceAll' to replace them all. Edits can " +
+          "also address lines directly with 'insertAt', 'replaceLines' or 'deleteLines', " +
+          "guarded by an optional 'expectedLines' snippet. Line edits refer to the file as it " +
+          'was before the batch, must not overlap and are applied first; text edits then ' +
+          'apply in order, each to the result of the edits before it. Returns the match strategy ' +
+          'used for each edit and a git-style diff showing the changes made. ' +
+          "Pass 'expectedSha256' or 'expectedMtime' from read_file to refuse the edit if " +
+          'the file changed in the meantime. The original line endings, byte order mark ' +
+          'and trailing newline are preserved. Only works within allowed directories.',
         inputSchema: zodToJsonSchema(EditFileArgsSchema) as ToolInput,
       },
+      {
+        name: 'edit_structured',
+        description:
+          'Edit a JSON (including JSONC with comments), YAML or TOML file by key path ' +
+          "instead of by text. Each operation is 'set' (create or replace a value), " +
+          "'delete' (remove a key or array element) or 'append' (add an element to an " +
+          "array, creating it if missing), addressed by a JSON Pointer ('/a/b/0') or a " +
+          "dotted path ('a.b[0]'). Formatting and comments outside the edited values are " +
+          'kept. Returns a git-style diff; use dryRun to preview. Only works within ' +
+          'allowed directories.',
+        inputSchema: zodToJsonSchema(EditStructuredArgsSchema) as ToolInput,
+      },
+      {
+        name: 'edit_notebook_cell',
+        description:
+          'Replace, insert or delete a cell of a Jupyter notebook (.ipynb), addressed by ' +
+          "0-based 'index' or by 'cellId'. Inserted cells get an id when the notebook format " +
+          'requires one, and replaced code cells have their outputs and execution count ' +
+          'cleared. Returns a git-style diff of the cell source; use dryRun to preview. ' +
+          'Only works within allowed directories.',
+        inputSchema: zodToJsonSchema(EditNotebookCellArgsSchema) as ToolInput,
+      },
+      {
+        name: 'apply_patch',
+        description:
+          'Apply a unified diff covering one or more files, such as the output of ' +
+          "'git diff' or 'diff -u'. Supports file creation, deletion and rename headers. " +
+          "Relative file names are resolved against 'basePath'; git-style a/ and b/ prefixes " +
+          "are stripped. 'fuzz' allows that many mismatching context lines per hunk. The patch " +
+          'is applied all-or-nothing: if any hunk fails, no file is modified. Use dryRun to get ' +
+          'a per-hunk report without changing files. Only works within allowed directories.',
+        inputSchema: zodToJsonSchema(ApplyPatchArgsSchema) as ToolInput,
+      },
+      {
+        name: 'format_file',
+        description:
+          'Format files with Prettier, using the nearest Prettier configuration and ' +
+          '.prettierignore for each file. Accepts file paths and glob patterns such as ' +
+          "'/project/src/**/*.ts' (files ignored by .gitignore are skipped). Returns a " +
+          'unified diff per changed file; use dryRun to preview without writing. Files ' +
+          'Prettier cannot parse are reported without failing the rest of the batch. ' +
+          'Only works within allowed directories.',
+        inputSchema: zodToJsonSchema(FormatFileArgsSchema) as ToolInput,
+      },
       {
         name: 'create_directory',
         description:
@@ -400,8 +4910,15 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
         description:
           'Get a recursive tree view of files and directories as a JSON structure. ' +
           "Each entry includes 'name', 'type' (file/directory), and 'children' for directories. " +
-          'Files have no children array, while directories always have a children array (which may be empty). ' +
-          'The output is formatted with 2-space indentation for readability. Only works within allowed directories.',
+          'Files have no children array, while directories have a children array (which may be ' +
+          "empty) unless 'maxDepth' was reached. Directories cut short by 'maxDepth' or " +
+          "'maxEntries' are marked 'truncated', and hitting 'maxEntries' adds a second text " +
+          "item saying how many entries were left out. 'includeMetadata' adds size, " +
+          "modification time and child counts; format 'text' returns a compact indented " +
+          'listing instead of JSON. ' +
+          'The output is formatted with 2-space indentation for readability. Entries matched by ' +
+          '.gitignore, .ignore or .git/info/exclude files (and .git itself) are skipped unless ' +
+          "'respectIgnoreFiles' is false. Only works within allowed directories.",
         inputSchema: zodToJsonSchema(DirectoryTreeArgsSchema) as ToolInput,
       },
       {
@@ -420,22 +4937,171 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           'Searches through all subdirectories from the starting path. The search ' +
           'is case-insensitive and matches partial names. Returns full paths to all ' +
           "matching items. Great for finding files when you don't know their exact location. " +
-          'Only searches within allowed directories.',
+          'Entries matched by .gitignore, .ignore or .git/info/exclude files are skipped unless ' +
+          "'respectIgnoreFiles' is false. Only searches within allowed directories.",
         inputSchema: zodToJsonSchema(SearchFilesArgsSchema) as ToolInput,
       },
+      {
+        name: 'find_files',
+        description:
+          "Find files and directories by glob pattern (e.g. 'src/**/*.ts') and metadata: " +
+          "'type', 'extensions', a size range in bytes ('minSize', 'maxSize') and a " +
+          "modification time range ('modifiedAfter', 'modifiedBefore', ISO 8601). Results " +
+          "can be sorted by 'name', 'size' or 'modified' and are returned as JSON with each " +
+          "entry's path, size, timestamps, type and permissions. Pages hold at most 'limit' " +
+          "entries; pass the returned 'nextCursor' as 'cursor' to get the next page. " +
+          'Entries matched by .gitignore, .ignore or .git/info/exclude files are skipped ' +
+          "unless 'respectIgnoreFiles' is false. Only searches within allowed directories.",
+        inputSchema: zodToJsonSchema(FindFilesArgsSchema) as ToolInput,
+      },
+      {
+        name: 'grep_files',
+        description:
+          'Search the contents of files for a regular expression or literal text. ' +
+          'Recursively searches from the starting path (or a single file), skipping binary ' +
+          "files. Use 'includePatterns' and 'excludePatterns' globs to narrow the files " +
+          "searched and 'contextBefore'/'contextAfter' to show surrounding lines. Matches " +
+          "are reported as 'path:line:column: text', context lines as 'path-line- text'. " +
+          "Results are capped per file by 'maxMatchesPerFile' and in total by 'maxResults'. " +
+          'Files ignored by .gitignore, .ignore or .git/info/exclude are skipped unless ' +
+          "'respectIgnoreFiles' is false. Only searches within allowed directories.",
+        inputSchema: zodToJsonSchema(GrepFilesArgsSchema) as ToolInput,
+      },
+      {
+        name: 'file_outline',
+        description:
+          'List the structure of a TypeScript or JavaScript file: classes and their ' +
+          'members, functions, interfaces, type aliases, enums, namespaces, top-level ' +
+          'variables and export statements, each with its line range and whether it is ' +
+          'exported. Use read_symbol to read the source of one of them. ' +
+          'Only works within allowed directories.',
+        inputSchema: zodToJsonSchema(FileOutlineArgsSchema) as ToolInput,
+      },
+      {
+        name: 'read_symbol',
+        description:
+          'Read the source of a named symbol in a TypeScript or JavaScript file, including ' +
+          "its JSDoc comment. Use 'Class.method' for class members. All declarations with " +
+          'the name are returned, e.g. every overload of a function. ' +
+          'Only works within allowed directories.',
+        inputSchema: zodToJsonSchema(ReadSymbolArgsSchema) as ToolInput,
+      },
+      {
+        name: 'disk_usage',
+        description:
+          'Summarize the disk usage of a directory: the total size and file count of each ' +
+          "subdirectory down to 'maxDepth', the 'topFiles' largest files and the number and " +
+          'size of files per extension. Returns a human-readable table followed by the same ' +
+          "data as JSON. Entries matching 'excludePatterns' are skipped; files ignored by " +
+          "version control are counted unless 'respectIgnoreFiles' is true. Symbolic links " +
+          'are not followed. Only works within allowed directories.',
+        inputSchema: zodToJsonSchema(DiskUsageArgsSchema) as ToolInput,
+      },
+      {
+        name: 'compare_paths',
+        description:
+          'Compare two files or two directories. For files, returns a unified diff. For ' +
+          'directories, reports every file that was added, removed or modified on the right ' +
+          'side relative to the left, with unified diffs for changed text files and SHA-256 ' +
+          "hashes for changed binary files. Set 'ignoreWhitespace' to ignore whitespace-only " +
+          "changes and use 'excludePatterns' to skip paths, e.g. when comparing a generated " +
+          'output directory with a golden copy. Only works within allowed directories.',
+        inputSchema: zodToJsonSchema(ComparePathsArgsSchema) as ToolInput,
+      },
+      {
+        name: 'replace_in_files',
+        description:
+          'Search and replace across files. Recursively searches from the starting path ' +
+          "(or a single file) for a regular expression, or literal text when 'literal' is " +
+          "true, and replaces every match; the replacement can use '$1' or '$<name>' to " +
+          "insert capture groups. Use 'includePatterns' and 'excludePatterns' globs to " +
+          'narrow the files changed. Reports the number of matches per file and a combined ' +
+          'git-style diff; use dryRun to preview. All files are written together, and if ' +
+          'any write fails the others are rolled back. Binary files and files ignored by ' +
+          ".gitignore, .ignore or .git/info/exclude are skipped unless 'respectIgnoreFiles' " +
+          'is false. Only works within allowed directories.',
+        inputSchema: zodToJsonSchema(ReplaceInFilesArgsSchema) as ToolInput,
+      },
       {
         name: 'get_file_info',
         description:
           'Retrieve detailed metadata about a file or directory. Returns comprehensive ' +
           'information including size, creation time, last modified time, permissions, ' +
-          'and type. This tool is perfect for understanding file characteristics ' +
-          'without reading the actual content. Only works within allowed directories.',
+          'owner uid/gid, type and whether the path is a symbolic link (with its target). ' +
+          'For files it also reports the MIME type, whether the content is text or binary, ' +
+          'the line count of text files and, with includeSha256, the SHA-256 hash. Pass ' +
+          "'paths' to inspect several paths in one call; failures are reported per path. " +
+          'This tool is perfect for understanding file characteristics without reading ' +
+          'the actual content. Only works within allowed directories.',
         inputSchema: zodToJsonSchema(GetFileInfoArgsSchema) as ToolInput,
       },
+      {
+        name: 'delete_path',
+        description:
+          'Delete a file, or a directory when recursive is true. By default the path is ' +
+          'moved to the server trash, from where restore_from_trash (or undo_change) can ' +
+          'bring it back; set useTrash to false to delete permanently. ' +
+          'Only works within allowed directories.',
+        inputSchema: zodToJsonSchema(DeletePathArgsSchema) as ToolInput,
+      },
+      {
+        name: 'copy_path',
+        description:
+          'Copy a file or a whole directory tree. When a destination file already exists, ' +
+          "'overwrite' decides whether to fail (default), replace it or skip it. Returns the " +
+          'number of files and directories copied and any paths skipped. Both source and ' +
+          'destination must be within allowed directories.',
+        inputSchema: zodToJsonSchema(CopyPathArgsSchema) as ToolInput,
+      },
+      {
+        name: 'list_trash',
+        description:
+          'List items deleted with delete_path that are still in the server trash, newest ' +
+          'first, with the id used by restore_from_trash.',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+          required: [],
+        },
+      },
+      {
+        name: 'restore_from_trash',
+        description:
+          'Restore a deleted file or directory from the server trash to its original path ' +
+          "or to 'destination'. Fails if the target path already exists. " +
+          'Only works within allowed directories.',
+        inputSchema: zodToJsonSchema(RestoreFromTrashArgsSchema) as ToolInput,
+      },
+      {
+        name: 'list_changes',
+        description:
+          'List recent changes made by this server (write_file, edit_file, apply_patch, ' +
+          'move_file, create_directory, delete_path, copy_path), newest first, with the id ' +
+          'used by undo_change. ' +
+          'Prior file contents are kept in a bounded journal so changes can be undone.',
+        inputSchema: zodToJsonSchema(ListChangesArgsSchema) as ToolInput,
+      },
+      {
+        name: 'undo_change',
+        description:
+          'Undo one recorded change by id, restoring the previous content, permissions and ' +
+          'modification time of the files it touched. Refuses if any of those paths has ' +
+          'changed on disk since the change was made.',
+        inputSchema: zodToJsonSchema(UndoChangeArgsSchema) as ToolInput,
+      },
+      {
+        name: 'undo_last_n',
+        description:
+          'Undo the most recent changes that have not been undone yet, newest first. ' +
+          'Stops at the first change that cannot be undone because a path was modified ' +
+          'since, leaving earlier changes in place.',
+        inputSchema: zodToJsonSchema(UndoLastNArgsSchema) as ToolInput,
+      },
       {
         name: 'list_allowed_directories',
         description:
-          'Returns the list of directories that this server is allowed to access. ' +
+          'Returns the list of directories that this server is allowed to access, each marked ' +
+          'read-only or read-write. Tools that modify files fail on read-only directories. ' +
           'Use this to understand which directories are available before trying to access files.',
         inputSchema: {
           type: 'object',
@@ -448,6 +5114,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
 });
 
 server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  await initialRootsReady;
   try {
     const { name, arguments: args } = request.params;
 
@@ -455,194 +5122,745 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     case 'read_file': {
       const parsed = ReadFileArgsSchema.safeParse(args);
       if (!parsed.success) {
-        throw new Error(`Invalid arguments for read_file: ${parsed.error}`);
+        throw new Error(`Invalid arguments for read_file: ${parsed.error}`);
+      }
+      const validPath = await validatePath(parsed.data.path);
+      const buffer = await fs.readFile(validPath);
+      const { text, format } = decodeTextContent(validPath, buffer, parsed.data.encoding);
+      const result = sliceTextContent(text, { ...parsed.data, encoding: format.encoding });
+      const version = await getFileVersion(validPath, buffer);
+      return {
+        content: [{ type: 'text', text: formatPartialRead(result, version) }],
+      };
+    }
+
+    case 'read_media_file': {
+      const parsed = ReadMediaFileArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for read_media_file: ${parsed.error}`);
+      }
+      const validPath = await validatePath(parsed.data.path);
+      // Other binary files only need their head for detection and the preview
+      const { size } = await fs.stat(validPath);
+      const head = await readFileHead(
+        validPath,
+        Math.max(BINARY_SNIFF_BYTES, parsed.data.previewBytes)
+      );
+      const mimeType = detectMimeType(head, validPath);
+
+      if (INLINE_IMAGE_MIME_TYPES.has(mimeType)) {
+        const buffer = await fs.readFile(validPath);
+        return {
+          content: [{ type: 'image', data: buffer.toString('base64'), mimeType }],
+        };
+      }
+      if (!isBinaryContent(head)) {
+        return {
+          content: [{ type: 'text', text: await fs.readFile(validPath, 'utf-8') }],
+        };
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatBinarySummary(
+              parsed.data.path,
+              head,
+              size,
+              mimeType,
+              parsed.data.encoding,
+              parsed.data.previewBytes
+            ),
+          },
+        ],
+      };
+    }
+
+    case 'read_multiple_files': {
+      const parsed = ReadMultipleFilesArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for read_multiple_files: ${parsed.error}`);
+      }
+      const contents = await Promise.all(
+        parsed.data.paths.map(async (filePath: string) => {
+          try {
+            const validPath = await validatePath(filePath);
+            const buffer = await fs.readFile(validPath);
+            const { text, format } = decodeTextContent(validPath, buffer, parsed.data.encoding);
+            return { filePath, content: text, encoding: format.encoding };
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return { filePath, error: errorMessage };
+          }
+        })
+      );
+
+      // Spend the shared byte budget sequentially so earlier paths take priority
+      let remainingBytes = parsed.data.maxTotalBytes;
+      const results = contents.map(({ filePath, content, encoding, error }) => {
+        if (content === undefined) {
+          return `${filePath}: Error - ${error}`;
+        }
+        if (remainingBytes === 0) {
+          return `${filePath}: Skipped - byte budget exhausted`;
+        }
+        const result = sliceTextContent(content, {
+          maxBytes: remainingBytes,
+          lineNumbers: parsed.data.lineNumbers,
+          encoding,
+        });
+        if (remainingBytes !== undefined) {
+          remainingBytes -= result.bytes;
+        }
+        return `${filePath}:\n${formatPartialRead(result)}\n`;
+      });
+      return {
+        content: [{ type: 'text', text: results.join('\n---\n') }],
+      };
+    }
+
+    case 'read_notebook': {
+      const parsed = ReadNotebookArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for read_notebook: ${parsed.error}`);
+      }
+      const validPath = await validatePath(parsed.data.path);
+      const notebook = parseNotebook(validPath, await readTextFile(validPath));
+      return {
+        content: formatNotebook(notebook, parsed.data),
+      };
+    }
+
+    case 'write_file': {
+      const parsed = WriteFileArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for write_file: ${parsed.error}`);
+      }
+      const validPath = await validatePath(parsed.data.path);
+      assertWritable(validPath);
+      await checkWritePreconditions(validPath, parsed.data);
+      const pendingChange = await captureFileState(validPath);
+      // Keep the byte order mark of a file being overwritten
+      const existing = await fs.readFile(validPath).catch(() => null);
+      const { encoding, bom } = detectEncoding(existing ?? Buffer.alloc(0), parsed.data.encoding);
+      const content = parsed.data.content.replace(/^\uFEFF/, '');
+      await writeFileAtomic(
+        validPath,
+        encodeTextContent(content, encoding, bom || parsed.data.content.startsWith('\uFEFF'))
+      );
+      await recordChange('write_file', [pendingChange]);
+      return {
+        content: [{ type: 'text', text: `Successfully wrote to ${parsed.data.path}` }],
+      };
+    }
+
+    case 'edit_file': {
+      const parsed = EditFileArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for edit_file: ${parsed.error}`);
+      }
+      const validPath = await validatePath(parsed.data.path);
+      if (!parsed.data.dryRun) {
+        assertWritable(validPath);
+      }
+      await checkWritePreconditions(validPath, parsed.data);
+      const pendingChange = await captureFileState(validPath);
+      const result = await applyFileEdits(
+        validPath,
+        parsed.data.edits,
+        parsed.data.dryRun,
+        parsed.data.encoding
+      );
+      if (!parsed.data.dryRun) {
+        await recordChange('edit_file', [pendingChange]);
+      }
+      return {
+        content: [{ type: 'text', text: result }],
+      };
+    }
+
+    case 'edit_structured': {
+      const parsed = EditStructuredArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for edit_structured: ${parsed.error}`);
+      }
+      const validPath = await validatePath(parsed.data.path);
+      if (!parsed.data.dryRun) {
+        assertWritable(validPath);
+      }
+      await checkWritePreconditions(validPath, parsed.data);
+      const pendingChange = await captureFileState(validPath);
+      const result = await applyStructuredEdits(
+        validPath,
+        parsed.data.operations,
+        parsed.data.format,
+        parsed.data.dryRun
+      );
+      if (!parsed.data.dryRun) {
+        await recordChange('edit_structured', [pendingChange]);
+      }
+      return {
+        content: [{ type: 'text', text: result }],
+      };
+    }
+
+    case 'edit_notebook_cell': {
+      const parsed = EditNotebookCellArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for edit_notebook_cell: ${parsed.error}`);
+      }
+      const validPath = await validatePath(parsed.data.path);
+      if (!parsed.data.dryRun) {
+        assertWritable(validPath);
+      }
+      await checkWritePreconditions(validPath, parsed.data);
+      const pendingChange = await captureFileState(validPath);
+      const result = await editNotebookCell(validPath, parsed.data);
+      if (!parsed.data.dryRun) {
+        await recordChange('edit_notebook_cell', [pendingChange]);
+      }
+      return {
+        content: [{ type: 'text', text: result }],
+      };
+    }
+
+    case 'apply_patch': {
+      const parsed = ApplyPatchArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for apply_patch: ${parsed.error}`);
+      }
+      const basePath = await validatePath(parsed.data.basePath ?? allowedDirectories[0]!);
+      const result = await applyMultiFilePatch(
+        parsed.data.patch,
+        basePath,
+        parsed.data.fuzz,
+        parsed.data.dryRun
+      );
+      return {
+        content: [{ type: 'text', text: result }],
+      };
+    }
+
+    case 'format_file': {
+      const parsed = FormatFileArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for format_file: ${parsed.error}`);
+      }
+      const result = await formatFiles(parsed.data.paths, parsed.data.dryRun);
+      return {
+        content: [{ type: 'text', text: result }],
+      };
+    }
+
+    case 'create_directory': {
+      const parsed = CreateDirectoryArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for create_directory: ${parsed.error}`);
+      }
+      const validPath = await validateCreatablePath(parsed.data.path);
+      assertWritable(validPath);
+      // Record every directory level that did not exist before
+      const created = await createDirectories(validPath);
+      if (created.length > 0) {
+        await recordChange('create_directory', [{ type: 'mkdir', paths: created }]);
+      }
+      return {
+        content: [{ type: 'text', text: `Successfully created directory ${parsed.data.path}` }],
+      };
+    }
+
+    case 'list_directory': {
+      const parsed = ListDirectoryArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for list_directory: ${parsed.error}`);
+      }
+      const validPath = await validatePath(parsed.data.path);
+      const entries = await fs.readdir(validPath, { withFileTypes: true });
+      const formatted = entries
+        .filter((entry) => !isDeniedPath(path.join(validPath, entry.name)))
+        .map((entry) => `${entry.isDirectory() ? '[DIR]' : '[FILE]'} ${entry.name}`)
+        .join('\n');
+      return {
+        content: [{ type: 'text', text: formatted }],
+      };
+    }
+
+    case 'directory_tree': {
+      const parsed = DirectoryTreeArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for directory_tree: ${parsed.error}`);
+      }
+
+      const rootPath = await validatePath(parsed.data.path);
+      const tree = await buildDirectoryTree(rootPath, parsed.data);
+      const listing =
+        parsed.data.format === 'text'
+          ? formatTreeText(path.basename(rootPath) || rootPath, tree.entries, tree.omittedEntries)
+          : JSON.stringify(tree.entries, null, 2);
+      // Kept out of the listing itself, so that the JSON format stays parseable
+      const notice =
+        `[Stopped after ${parsed.data.maxEntries} entries; ` +
+        `${tree.omittedEntries} more at the top level, truncated subtrees are marked]`;
+      return {
+        content: [
+          { type: 'text', text: listing },
+          ...(tree.limitReached ? [{ type: 'text', text: notice }] : []),
+        ],
+      };
+    }
+
+    case 'move_file': {
+      const parsed = MoveFileArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for move_file: ${parsed.error}`);
+      }
+      const validSourcePath = await validatePath(parsed.data.source);
+      const validDestPath = await validatePath(parsed.data.destination);
+      assertWritable(validSourcePath);
+      assertWritable(validDestPath);
+      if ((await fs.lstat(validSourcePath)).isDirectory()) {
+        await assertNoDeniedDescendants(validSourcePath, 'move');
+      }
+      await fs.rename(validSourcePath, validDestPath);
+      await recordChange('move_file', [
+        { type: 'move', source: validSourcePath, destination: validDestPath },
+      ]);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Successfully moved ${parsed.data.source} to ${parsed.data.destination}`,
+          },
+        ],
+      };
+    }
+
+    case 'search_files': {
+      const parsed = SearchFilesArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for search_files: ${parsed.error}`);
+      }
+      const validPath = await validatePath(parsed.data.path);
+      const results = await searchFiles(
+        validPath,
+        parsed.data.pattern,
+        parsed.data.excludePatterns,
+        parsed.data.respectIgnoreFiles
+      );
+      return {
+        content: [
+          { type: 'text', text: results.length > 0 ? results.join('\n') : 'No matches found' },
+        ],
+      };
+    }
+
+    case 'find_files': {
+      const parsed = FindFilesArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for find_files: ${parsed.error}`);
+      }
+      const validPath = await validatePath(parsed.data.path);
+      const result = await findFiles(validPath, parsed.data);
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    }
+
+    case 'grep_files': {
+      const parsed = GrepFilesArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for grep_files: ${parsed.error}`);
       }
+      const source = parsed.data.literal ? escapeRegExp(parsed.data.pattern) : parsed.data.pattern;
+      const regex = new RegExp(source, parsed.data.ignoreCase ? 'i' : '');
       const validPath = await validatePath(parsed.data.path);
-      const content = await fs.readFile(validPath, 'utf-8');
+      const result = await grepFiles(validPath, regex, parsed.data);
+      if (result.matchCount === 0) {
+        return {
+          content: [{ type: 'text', text: 'No matches found' }],
+        };
+      }
+      const summary =
+        `Found ${result.matchCount} matches in ${result.fileCount} files` +
+        (result.limitReached ? ` (stopped at maxResults=${parsed.data.maxResults})` : '');
       return {
-        content: [{ type: 'text', text: content }],
+        content: [{ type: 'text', text: `${result.output.join('\n')}\n\n${summary}` }],
       };
     }
 
-    case 'read_multiple_files': {
-      const parsed = ReadMultipleFilesArgsSchema.safeParse(args);
+    case 'file_outline': {
+      const parsed = FileOutlineArgsSchema.safeParse(args);
       if (!parsed.success) {
-        throw new Error(`Invalid arguments for read_multiple_files: ${parsed.error}`);
+        throw new Error(`Invalid arguments for file_outline: ${parsed.error}`);
       }
-      const results = await Promise.all(
-        parsed.data.paths.map(async (filePath: string) => {
-          try {
-            const validPath = await validatePath(filePath);
-            const content = await fs.readFile(validPath, 'utf-8');
-            return `${filePath}:\n${content}\n`;
-          } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            return `${filePath}: Error - ${errorMessage}`;
-          }
-        })
-      );
+      const validPath = await validatePath(parsed.data.path);
+      const sourceFile = await parseSourceFile(validPath);
+      const outline = formatOutline(outlineStatements(sourceFile, sourceFile.statements));
       return {
-        content: [{ type: 'text', text: results.join('\n---\n') }],
+        content: [
+          {
+            type: 'text',
+            text: outline.length > 0 ? outline.join('\n') : 'No declarations found',
+          },
+        ],
       };
     }
 
-    case 'write_file': {
-      const parsed = WriteFileArgsSchema.safeParse(args);
+    case 'read_symbol': {
+      const parsed = ReadSymbolArgsSchema.safeParse(args);
       if (!parsed.success) {
-        throw new Error(`Invalid arguments for write_file: ${parsed.error}`);
+        throw new Error(`Invalid arguments for read_symbol: ${parsed.error}`);
       }
       const validPath = await validatePath(parsed.data.path);
-      await fs.writeFile(validPath, parsed.data.content, 'utf-8');
+      const sourceFile = await parseSourceFile(validPath);
+      const symbols = outlineStatements(sourceFile, sourceFile.statements);
+      const matches = findOutlineSymbols(symbols, parsed.data.symbol);
+      if (matches.length === 0) {
+        throw new Error(
+          `Symbol not found: ${parsed.data.symbol}. Use file_outline to list the symbols.`
+        );
+      }
+      const totalLines = sourceFile.getLineStarts().length;
+      const text = matches
+        .map((symbol) => {
+          // Start at the beginning of the line so the first line keeps its indentation,
+          // unless other code precedes the symbol on that line
+          const startLine = sourceFile.getLineAndCharacterOfPosition(symbol.sourceStart).line;
+          const lineStart = sourceFile.getLineStarts()[startLine]!;
+          const prefix = sourceFile.text.slice(lineStart, symbol.sourceStart);
+          const start = prefix.trim() === '' ? lineStart : symbol.sourceStart;
+          return (
+            `${sourceFile.text.slice(start, symbol.end)}\n\n` +
+            `[${symbol.kind} ${symbol.name}, lines ${startLine + 1}-${symbol.endLine} ` +
+            `of ${totalLines} total]`
+          );
+        })
+        .join('\n\n');
       return {
-        content: [{ type: 'text', text: `Successfully wrote to ${parsed.data.path}` }],
+        content: [{ type: 'text', text }],
       };
     }
 
-    case 'edit_file': {
-      const parsed = EditFileArgsSchema.safeParse(args);
+    case 'disk_usage': {
+      const parsed = DiskUsageArgsSchema.safeParse(args);
       if (!parsed.success) {
-        throw new Error(`Invalid arguments for edit_file: ${parsed.error}`);
+        throw new Error(`Invalid arguments for disk_usage: ${parsed.error}`);
       }
       const validPath = await validatePath(parsed.data.path);
-      const result = await applyFileEdits(validPath, parsed.data.edits, parsed.data.dryRun);
+      const usage = await getDiskUsage(validPath, parsed.data);
       return {
-        content: [{ type: 'text', text: result }],
+        content: [
+          { type: 'text', text: formatDiskUsage(usage) },
+          { type: 'text', text: JSON.stringify(usage, null, 2) },
+        ],
       };
     }
 
-    case 'create_directory': {
-      const parsed = CreateDirectoryArgsSchema.safeParse(args);
+    case 'compare_paths': {
+      const parsed = ComparePathsArgsSchema.safeParse(args);
       if (!parsed.success) {
-        throw new Error(`Invalid arguments for create_directory: ${parsed.error}`);
+        throw new Error(`Invalid arguments for compare_paths: ${parsed.error}`);
       }
-      const validPath = await validatePath(parsed.data.path);
-      await fs.mkdir(validPath, { recursive: true });
+      const leftPath = await validatePath(parsed.data.left);
+      const rightPath = await validatePath(parsed.data.right);
+      const result = await comparePaths(leftPath, rightPath, parsed.data);
       return {
-        content: [{ type: 'text', text: `Successfully created directory ${parsed.data.path}` }],
+        content: [{ type: 'text', text: result }],
       };
     }
 
-    case 'list_directory': {
-      const parsed = ListDirectoryArgsSchema.safeParse(args);
+    case 'replace_in_files': {
+      const parsed = ReplaceInFilesArgsSchema.safeParse(args);
       if (!parsed.success) {
-        throw new Error(`Invalid arguments for list_directory: ${parsed.error}`);
+        throw new Error(`Invalid arguments for replace_in_files: ${parsed.error}`);
       }
+      const { pattern, literal, ignoreCase } = parsed.data;
+      const source = literal ? escapeRegExp(pattern) : pattern;
+      // With the m flag, '^' and '$' also match the empty line after a final newline; the
+      // lookahead refuses matches that start at the very end of content ending in a newline
+      const regex = new RegExp(
+        `(?!(?<=\\n)(?![\\s\\S]))(?:${source})`,
+        ignoreCase ? 'gim' : 'gm'
+      );
+      // '$' has no special meaning in a literal replacement
+      const replacement = literal
+        ? parsed.data.replacement.replace(/\$/g, '$$$$')
+        : parsed.data.replacement;
       const validPath = await validatePath(parsed.data.path);
-      const entries = await fs.readdir(validPath, { withFileTypes: true });
-      const formatted = entries
-        .map((entry) => `${entry.isDirectory() ? '[DIR]' : '[FILE]'} ${entry.name}`)
-        .join('\n');
+      const result = await replaceInFiles(
+        validPath,
+        regex,
+        replacement,
+        parsed.data,
+        parsed.data.dryRun
+      );
       return {
-        content: [{ type: 'text', text: formatted }],
+        content: [{ type: 'text', text: result }],
       };
     }
 
-    case 'directory_tree': {
-      const parsed = DirectoryTreeArgsSchema.safeParse(args);
+    case 'get_file_info': {
+      const parsed = GetFileInfoArgsSchema.safeParse(args);
       if (!parsed.success) {
-        throw new Error(`Invalid arguments for directory_tree: ${parsed.error}`);
+        throw new Error(`Invalid arguments for get_file_info: ${parsed.error}`);
+      }
+      const { path: singlePath, paths, includeSha256 } = parsed.data;
+      if (singlePath !== undefined && paths === undefined) {
+        const validPath = await validatePath(singlePath);
+        const info = await getDetailedFileInfo(singlePath, validPath, includeSha256);
+        return {
+          content: [{ type: 'text', text: formatFileInfo(info) }],
+        };
       }
 
-        interface TreeEntry {
-          name: string;
-          type: 'file' | 'directory';
-          children?: TreeEntry[];
-        }
-
-        async function buildTree(currentPath: string): Promise<TreeEntry[]> {
-          const validPath = await validatePath(currentPath);
-          const entries = await fs.readdir(validPath, { withFileTypes: true });
-          const result: TreeEntry[] = [];
-
-          for (const entry of entries) {
-            const entryData: TreeEntry = {
-              name: entry.name,
-              type: entry.isDirectory() ? 'directory' : 'file',
-            };
-
-            if (entry.isDirectory()) {
-              const subPath = path.join(currentPath, entry.name);
-              entryData.children = await buildTree(subPath);
-            }
-
-            result.push(entryData);
+      const requestedPaths = [...(singlePath !== undefined ? [singlePath] : []), ...(paths ?? [])];
+      const results = await Promise.all(
+        requestedPaths.map(async (filePath) => {
+          try {
+            const validPath = await validatePath(filePath);
+            const info = await getDetailedFileInfo(filePath, validPath, includeSha256);
+            return `${filePath}:\n${formatFileInfo(info)}`;
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return `${filePath}: Error - ${errorMessage}`;
           }
+        })
+      );
+      return {
+        content: [{ type: 'text', text: results.join('\n---\n') }],
+      };
+    }
 
-          return result;
-        }
+    case 'delete_path': {
+      const parsed = DeletePathArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for delete_path: ${parsed.error}`);
+      }
+      const requestedPath = normalizePath(path.resolve(expandHome(parsed.data.path)));
+      if (allowedDirectories.includes(requestedPath)) {
+        throw new Error(`Refusing to delete an allowed directory itself: ${requestedPath}`);
+      }
+      // A symlink is deleted itself, never the file or directory it points to
+      const validPath = await validateLinkPath(parsed.data.path);
+      assertWritable(validPath);
+      if (allowedDirectories.includes(validPath)) {
+        throw new Error(`Refusing to delete an allowed directory itself: ${validPath}`);
+      }
+      const stats = await fs.lstat(validPath);
+      if (stats.isDirectory() && !parsed.data.recursive) {
+        throw new Error(`${parsed.data.path} is a directory; set recursive to true to delete it`);
+      }
+      if (stats.isDirectory()) {
+        await assertNoDeniedDescendants(validPath, 'delete');
+      }
 
-        const treeData = await buildTree(parsed.data.path);
+      if (parsed.data.useTrash) {
+        const item = await moveToTrash(validPath);
+        await recordChange('delete_path', [
+          { type: 'trash', path: validPath, trashId: item.id },
+        ]);
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(treeData, null, 2),
+              text: `Moved ${parsed.data.path} to the trash (id ${item.id})`,
             },
           ],
         };
+      }
+
+      const pendingChange = stats.isFile() ? await captureFileState(validPath) : null;
+      await fs.rm(validPath, { recursive: parsed.data.recursive });
+      if (pendingChange) {
+        await recordChange('delete_path', [pendingChange]);
+      }
+      return {
+        content: [{ type: 'text', text: `Permanently deleted ${parsed.data.path}` }],
+      };
     }
 
-    case 'move_file': {
-      const parsed = MoveFileArgsSchema.safeParse(args);
+    case 'copy_path': {
+      const parsed = CopyPathArgsSchema.safeParse(args);
       if (!parsed.success) {
-        throw new Error(`Invalid arguments for move_file: ${parsed.error}`);
+        throw new Error(`Invalid arguments for copy_path: ${parsed.error}`);
       }
       const validSourcePath = await validatePath(parsed.data.source);
-      const validDestPath = await validatePath(parsed.data.destination);
-      await fs.rename(validSourcePath, validDestPath);
+      const validDestPath = await validateCreatablePath(parsed.data.destination);
+      assertWritable(validDestPath);
+      if (isPathWithin(validDestPath, validSourcePath)) {
+        throw new Error('Cannot copy a path into itself');
+      }
+
+      if (parsed.data.overwrite === 'error') {
+        const conflict = await findCopyConflict(validSourcePath, validDestPath);
+        if (conflict) {
+          throw new Error(`Destination already exists: ${conflict}`);
+        }
+      }
+
+      const stats: CopyStats = {
+        files: 0,
+        directories: 0,
+        skipped: [],
+        createdDirectories: await createDirectories(path.dirname(validDestPath)),
+        operations: [],
+      };
+      try {
+        await copyPathRecursive(validSourcePath, validDestPath, parsed.data.overwrite, stats);
+      } finally {
+        // Journal whatever was copied, even when the copy stopped part-way. Directories come
+        // first so that undo removes them after the files copied into them.
+        const operations: PendingOperation[] = [
+          ...(stats.createdDirectories.length > 0
+            ? [{ type: 'mkdir' as const, paths: stats.createdDirectories }]
+            : []),
+          ...stats.operations,
+        ];
+        if (operations.length > 0) {
+          await recordChange('copy_path', operations);
+        }
+      }
+      const skipped =
+        stats.skipped.length > 0 ? `\nSkipped:\n${stats.skipped.join('\n')}` : '';
       return {
         content: [
           {
             type: 'text',
-            text: `Successfully moved ${parsed.data.source} to ${parsed.data.destination}`,
+            text:
+              `Copied ${parsed.data.source} to ${parsed.data.destination} ` +
+              `(${stats.files} files, ${stats.directories} directories)${skipped}`,
           },
         ],
       };
     }
 
-    case 'search_files': {
-      const parsed = SearchFilesArgsSchema.safeParse(args);
+    case 'list_trash': {
+      const items = (await withTrashLock(loadTrashIndex)).reverse();
+      return {
+        content: [
+          {
+            type: 'text',
+            text:
+              items.length > 0
+                ? items
+                  .map(
+                    (item) => `${item.id} ${item.deletedAt} [${item.type}] ${item.originalPath}`
+                  )
+                  .join('\n')
+                : 'Trash is empty',
+          },
+        ],
+      };
+    }
+
+    case 'restore_from_trash': {
+      const parsed = RestoreFromTrashArgsSchema.safeParse(args);
       if (!parsed.success) {
-        throw new Error(`Invalid arguments for search_files: ${parsed.error}`);
+        throw new Error(`Invalid arguments for restore_from_trash: ${parsed.error}`);
       }
-      const validPath = await validatePath(parsed.data.path);
-      const results = await searchFiles(
-        validPath,
-        parsed.data.pattern,
-        parsed.data.excludePatterns
-      );
+      const item = await restoreTrashItem(parsed.data.id, parsed.data.destination);
+      return {
+        content: [{ type: 'text', text: `Restored ${item.originalPath} from the trash` }],
+      };
+    }
+
+    case 'list_changes': {
+      const parsed = ListChangesArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for list_changes: ${parsed.error}`);
+      }
+      const journal = await withJournalLock(loadJournal);
+      const changes = journal.changes
+        .filter((entry) => parsed.data.includeUndone || !entry.undone)
+        .slice(-parsed.data.limit)
+        .reverse();
       return {
         content: [
-          { type: 'text', text: results.length > 0 ? results.join('\n') : 'No matches found' },
+          {
+            type: 'text',
+            text:
+              changes.length > 0
+                ? changes.map(formatJournalEntry).join('\n')
+                : 'No changes recorded',
+          },
         ],
       };
     }
 
-    case 'get_file_info': {
-      const parsed = GetFileInfoArgsSchema.safeParse(args);
+    case 'undo_change': {
+      const parsed = UndoChangeArgsSchema.safeParse(args);
       if (!parsed.success) {
-        throw new Error(`Invalid arguments for get_file_info: ${parsed.error}`);
+        throw new Error(`Invalid arguments for undo_change: ${parsed.error}`);
+      }
+      const entry = await withJournalLock(async () => {
+        const journal = await loadJournal();
+        const entry = journal.changes.find((change) => change.id === parsed.data.id);
+        if (!entry) {
+          throw new Error(`Change #${parsed.data.id} is not in the journal`);
+        }
+        await undoJournalEntry(entry);
+        await saveJournal(journal);
+        return entry;
+      });
+      return {
+        content: [{ type: 'text', text: `Undid change:\n${formatJournalEntry(entry)}` }],
+      };
+    }
+
+    case 'undo_last_n': {
+      const parsed = UndoLastNArgsSchema.safeParse(args);
+      if (!parsed.success) {
+        throw new Error(`Invalid arguments for undo_last_n: ${parsed.error}`);
+      }
+      const { undone, failure } = await withJournalLock(async () => {
+        const journal = await loadJournal();
+        const targets = journal.changes
+          .filter((entry) => !entry.undone)
+          .slice(-parsed.data.count)
+          .reverse();
+        const undone: string[] = [];
+        let failure: string | null = null;
+        // Undo newest first and stop at the first change that cannot be undone
+        for (const entry of targets) {
+          try {
+            await undoJournalEntry(entry);
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            failure = `Stopped at change #${entry.id}: ${errorMessage}`;
+            break;
+          }
+          undone.push(formatJournalEntry(entry));
+        }
+        await saveJournal(journal);
+        return { undone, failure };
+      });
+      if (failure && undone.length === 0) {
+        throw new Error(failure);
       }
-      const validPath = await validatePath(parsed.data.path);
-      const info = await getFileStats(validPath);
       return {
         content: [
           {
             type: 'text',
-            text: Object.entries(info)
-              .map(([key, value]) => `${key}: ${value}`)
-              .join('\n'),
+            text:
+              `Undid ${undone.length} change(s):\n${undone.join('\n')}` +
+              (failure ? `\n\n${failure}` : ''),
           },
         ],
       };
     }
 
     case 'list_allowed_directories': {
+      const formatted = allowedDirectories
+        .map((dir) => {
+          const mode = directoryModes.get(dir) === 'ro' ? 'read-only' : 'read-write';
+          return `${dir} (${mode})`;
+        })
+        .join('\n');
       return {
         content: [
           {
             type: 'text',
-            text: `Allowed directories:\n${allowedDirectories.join('\n')}`,
+            text: `Allowed directories:\n${formatted}`,
           },
         ],
       };
@@ -660,12 +5878,322 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 });
 
+// Resources
+// Files in allowed directories are exposed as file:// resources. Listing walks the allowed
+// directories in a stable order, respecting ignore files and the deny policy, one page at a time.
+const RESOURCE_PAGE_SIZE = 100;
+const MAX_RESOURCE_READ_BYTES = 10 * 1024 * 1024;
+const RESOURCE_UPDATE_DEBOUNCE_MS = 100;
+
+function resourceUri(filePath: string): string {
+  return pathToFileURL(filePath).href;
+}
+
+function resourcePathFromUri(uri: string): string {
+  if (!uri.startsWith('file://')) {
+    throw new Error(`Unsupported resource URI: ${uri}`);
+  }
+  return fileURLToPath(uri);
+}
+
+// Files are listed in a fixed order, so a listing resumes right after the last file of the
+// previous page without walking the part of the tree that was already returned
+async function listResourceFiles(after: string | undefined, limit: number): Promise<string[]> {
+  const files: string[] = [];
+
+  // afterSegments is the rest of the resume position below currentPath, if it lies there
+  async function walk(currentPath: string, ignoreStack: IgnoreStack, afterSegments?: string[]) {
+    const entries = await fs.readdir(currentPath, { withFileTypes: true }).catch(() => []);
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    const [afterName, ...afterRest] = afterSegments ?? [];
+
+    for (const entry of entries) {
+      if (files.length >= limit) {
+        return;
+      }
+      const resumesHere = entry.name === afterName;
+      if (afterName !== undefined && !resumesHere && entry.name.localeCompare(afterName) < 0) {
+        continue;
+      }
+      const fullPath = path.join(currentPath, entry.name);
+      if (isDeniedPath(fullPath) || isIgnoredPath(ignoreStack, fullPath, entry.isDirectory())) {
+        continue;
+      }
+      if (entry.isDirectory()) {
+        const childAfter = resumesHere && afterRest.length > 0 ? afterRest : undefined;
+        await walk(fullPath, await extendIgnoreStack(ignoreStack, fullPath), childAfter);
+      } else if (entry.isFile() && !resumesHere) {
+        files.push(fullPath);
+      }
+    }
+  }
+
+  // Nested allowed directories are walked as part of their parent
+  const roots = allowedDirectories.filter(
+    (dir) => !allowedDirectories.some((other) => other !== dir && isPathWithin(dir, other))
+  );
+  let rootIndex = 0;
+  let afterSegments: string[] | undefined;
+  if (after !== undefined) {
+    rootIndex = roots.findIndex((root) => isPathWithin(after, root));
+    if (rootIndex === -1) {
+      throw new Error(`Invalid cursor: ${after}`);
+    }
+    afterSegments = path.relative(roots[rootIndex]!, after).split(path.sep).filter(Boolean);
+  }
+  for (const root of roots.slice(rootIndex)) {
+    if (files.length >= limit) {
+      break;
+    }
+    await walk(root, await createIgnoreStack(root), afterSegments);
+    afterSegments = undefined;
+  }
+  return files;
+}
+
+function describeResource(filePath: string): Resource {
+  const root = findAllowedRoot(filePath) ?? path.dirname(filePath);
+  const resource: Resource = {
+    uri: resourceUri(filePath),
+    name: path.relative(root, filePath),
+  };
+  const mimeType = EXTENSION_MIME_TYPES[path.extname(filePath).toLowerCase()];
+  if (mimeType) {
+    resource.mimeType = mimeType;
+  }
+  return resource;
+}
+
+async function readResource(uri: string) {
+  const validPath = await validatePath(resourcePathFromUri(uri));
+  const stats = await fs.stat(validPath);
+  if (!stats.isFile()) {
+    throw new Error(`Resource is not a file: ${uri}`);
+  }
+  if (stats.size > MAX_RESOURCE_READ_BYTES) {
+    throw new Error(
+      `Resource is too large to read (${stats.size} bytes, limit ${MAX_RESOURCE_READ_BYTES}); ` +
+        'use read_file with offset and limit instead'
+    );
+  }
+  const buffer = await fs.readFile(validPath);
+  const mimeType = detectMimeType(buffer, validPath);
+  const { encoding } = detectEncoding(buffer);
+  if (encoding !== 'utf-16le' && isBinaryContent(buffer)) {
+    return { uri, mimeType, blob: buffer.toString('base64') };
+  }
+  return { uri, mimeType, text: decodeTextBuffer(validPath, buffer) };
+}
+
+// Subscriptions watch the parent directory rather than the file itself, because atomic
+// writes replace the file and would silently end a watch on the original inode.
+interface ResourceSubscription {
+  filePath: string;
+  watcher: FSWatcher;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const resourceSubscriptions = new Map<string, ResourceSubscription>();
+
+function subscribeToResource(uri: string, filePath: string): void {
+  if (resourceSubscriptions.has(uri)) {
+    return;
+  }
+  const fileName = path.basename(filePath);
+  const subscription: ResourceSubscription = {
+    filePath,
+    watcher: watch(path.dirname(filePath), (_event, changedName) => {
+      if (changedName !== null && changedName.toString() !== fileName) {
+        return;
+      }
+      if (subscription.timer) {
+        clearTimeout(subscription.timer);
+      }
+      subscription.timer = setTimeout(() => {
+        subscription.timer = null;
+        server.sendResourceUpdated({ uri }).catch((error) => {
+          console.error(`Failed to send resource update for ${uri}:`, error);
+        });
+      }, RESOURCE_UPDATE_DEBOUNCE_MS);
+    }),
+    timer: null,
+  };
+  subscription.watcher.on('error', (error) => {
+    console.error(`Stopped watching ${filePath}:`, error);
+    unsubscribeFromResource(uri);
+  });
+  resourceSubscriptions.set(uri, subscription);
+}
+
+function unsubscribeFromResource(uri: string): void {
+  const subscription = resourceSubscriptions.get(uri);
+  if (!subscription) {
+    return;
+  }
+  if (subscription.timer) {
+    clearTimeout(subscription.timer);
+  }
+  subscription.watcher.close();
+  resourceSubscriptions.delete(uri);
+}
+
+server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+  await initialRootsReady;
+  // The cursor is the path of the last file on the previous page
+  const after = request.params?.cursor || undefined;
+  // Fetch one extra entry to know whether another page exists
+  const files = await listResourceFiles(after, RESOURCE_PAGE_SIZE + 1);
+  const page = files.slice(0, RESOURCE_PAGE_SIZE);
+  return {
+    resources: page.map(describeResource),
+    ...(files.length > RESOURCE_PAGE_SIZE && { nextCursor: page[page.length - 1] }),
+  };
+});
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  await initialRootsReady;
+  return {
+    resourceTemplates: allowedDirectories.map((dir) => ({
+      uriTemplate: `${resourceUri(dir)}/{+path}`,
+      name: `Files in ${dir}`,
+      description: `A file inside the allowed directory ${dir}, addressed by its relative path`,
+    })),
+  };
+});
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  await initialRootsReady;
+  return {
+    contents: [await readResource(request.params.uri)],
+  };
+});
+
+server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  await initialRootsReady;
+  const { uri } = request.params;
+  const validPath = await validatePath(resourcePathFromUri(uri));
+  const stats = await fs.stat(validPath);
+  if (!stats.isFile()) {
+    throw new Error(`Resource is not a file: ${uri}`);
+  }
+  subscribeToResource(uri, validPath);
+  return {};
+});
+
+server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  unsubscribeFromResource(request.params.uri);
+  return {};
+});
+
+// Client roots
+// Clients that support roots narrow the allowed directories to their workspace. Each root is
+// clamped to the command line directories: roots inside one keep its access mode, roots
+// containing some are reduced to those directories, and roots outside all of them are ignored.
+async function resolveRootDirectories(roots: Root[]): Promise<Map<string, AccessMode>> {
+  const resolved = new Map<string, AccessMode>();
+  for (const root of roots) {
+    if (!root.uri.startsWith('file://')) {
+      console.error(`Ignoring root with unsupported URI: ${root.uri}`);
+      continue;
+    }
+    const rootPath = normalizePath(path.resolve(fileURLToPath(root.uri)));
+    const stats = await fs.stat(rootPath).catch(() => null);
+    if (!stats?.isDirectory()) {
+      console.error(`Ignoring root that is not an accessible directory: ${rootPath}`);
+      continue;
+    }
+
+    const containing = cliDirectories
+      .filter((dir) => isPathWithin(rootPath, dir))
+      .sort((a, b) => b.length - a.length)[0];
+    if (containing !== undefined) {
+      resolved.set(rootPath, cliDirectoryModes.get(containing)!);
+      continue;
+    }
+    const contained = cliDirectories.filter((dir) => isPathWithin(dir, rootPath));
+    if (contained.length === 0) {
+      console.error(`Ignoring root outside the allowed directories: ${rootPath}`);
+    }
+    for (const dir of contained) {
+      resolved.set(dir, cliDirectoryModes.get(dir)!);
+    }
+  }
+  return resolved;
+}
+
+let rootsGeneration = 0;
+
+// Requests wait for the client's first roots/list reply, so that they never run against the
+// full command line directories of a client that is about to narrow them
+const ROOTS_REPLY_TIMEOUT_MS = 5000;
+let initialRootsReady: Promise<void> = Promise.resolve();
+
+async function updateAllowedDirectoriesFromRoots(): Promise<void> {
+  const generation = ++rootsGeneration;
+  const { roots } = await server.listRoots();
+  const resolved = await resolveRootDirectories(roots);
+  // A newer roots/list_changed notification arrived while this one was being resolved
+  if (generation !== rootsGeneration) {
+    return;
+  }
+  if (resolved.size === 0) {
+    console.error('No usable client roots; keeping the command line directories');
+    for (const [dir, mode] of cliDirectoryModes) {
+      resolved.set(dir, mode);
+    }
+  }
+
+  allowedDirectories.splice(0, allowedDirectories.length, ...resolved.keys());
+  directoryModes.clear();
+  for (const [dir, mode] of resolved) {
+    directoryModes.set(dir, mode);
+  }
+  for (const [uri, subscription] of resourceSubscriptions) {
+    if (!isAllowedPath(subscription.filePath)) {
+      unsubscribeFromResource(uri);
+    }
+  }
+  console.error(
+    'Allowed directories updated from client roots:',
+    allowedDirectories.map((dir) => `${dir} (${directoryModes.get(dir)})`)
+  );
+  await server.sendResourceListChanged();
+}
+
+function refreshRoots(): Promise<void> {
+  return updateAllowedDirectoriesFromRoots().catch((error) => {
+    console.error('Failed to update allowed directories from client roots:', error);
+  });
+}
+
+server.oninitialized = () => {
+  if (server.getClientCapabilities()?.roots) {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<void>((resolve) => {
+      timer = setTimeout(() => {
+        console.error('No roots/list reply yet; using the command line directories meanwhile');
+        resolve();
+      }, ROOTS_REPLY_TIMEOUT_MS);
+    });
+    initialRootsReady = Promise.race([refreshRoots(), timeout]).finally(() =>
+      clearTimeout(timer)
+    );
+  }
+};
+
+server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+  refreshRoots();
+});
+
 // Start server
 async function runServer() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('Secure MCP Filesystem Server running on stdio');
-  console.error('Allowed directories:', allowedDirectories);
+  console.error(
+    'Allowed directories:',
+    allowedDirectories.map((dir) => `${dir} (${directoryModes.get(dir)})`)
+  );
 }
 
 runServer().catch((error) => {